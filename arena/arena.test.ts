@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseGame, serializeGame } from "../src/core/gameRecord";
+import { STANDARD_VARIANT } from "../src/core/variant";
+import { parseEngine, randomOpening, runArena, seededRandom, summarize, wilsonInterval } from "./arena";
+
+describe("parseEngine", () => {
+  it("reads a level with options", () => {
+    expect(parseEngine("expert")).toEqual({ name: "expert", level: "expert", overrides: {} });
+    expect(parseEngine("Hard/nobook/nosolve/d2/500ms")).toEqual({
+      name: "hard/nobook/nosolve/d2/500ms",
+      level: "hard",
+      overrides: { book: false, solveEmpty: 0, maxDepth: 2, timeMs: 500 },
+    });
+  });
+
+  it("rejects unknown levels, options and repeats", () => {
+    expect(parseEngine("master")).toBeNull();
+    expect(parseEngine("easy/fast")).toBeNull();
+    expect(parseEngine("easy/d0")).toBeNull();
+    expect(parseEngine("easy/100ms/200ms")).toBeNull();
+  });
+});
+
+describe("arena", () => {
+  it("draws the same opening from the same seed", () => {
+    const first = randomOpening(STANDARD_VARIANT, 3, seededRandom(7));
+    expect(first).toHaveLength(3);
+    expect(randomOpening(STANDARD_VARIANT, 3, seededRandom(7))).toEqual(first);
+  });
+
+  it("plays each opening with both colours and exports importable records", () => {
+    const easy = parseEngine("easy")!;
+    const games = runArena({
+      a: easy,
+      b: easy,
+      games: 2,
+      openingPlies: 2,
+      variant: STANDARD_VARIANT,
+      seed: 1,
+      date: "2026-10-19",
+    });
+
+    expect(games.map((g) => g.aSide)).toEqual(["white", "black"]);
+    expect(games[1].record.moves.slice(0, 2)).toEqual(games[0].record.moves.slice(0, 2));
+    for (const g of games) {
+      expect(g.record.mode).toBe("watch");
+      expect(g.record.players).toEqual({ white: "easy", black: "easy" });
+      expect(parseGame(serializeGame(g.record))).toEqual(g.record);
+      expect(g.think.a.moves + g.think.b.moves).toBe(g.record.moves.length - 2);
+    }
+
+    const s = summarize(games);
+    expect(s.wins + s.draws + s.losses).toBe(2);
+    expect(s.intervals.score[0]).toBeLessThanOrEqual(s.score);
+    expect(s.intervals.score[1]).toBeGreaterThanOrEqual(s.score);
+  });
+
+  it("computes Wilson intervals", () => {
+    const [low, high] = wilsonInterval(5, 10);
+    expect(low).toBeCloseTo(0.2366, 3);
+    expect(high).toBeCloseTo(0.7634, 3);
+    expect(wilsonInterval(0, 10)[0]).toBe(0);
+    expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+  });
+});
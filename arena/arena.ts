@@ -0,0 +1,238 @@
+import { AI_LEVELS, searchBestMove, type AiLevel, type AiLevelConfig } from "../src/core/ai";
+import { mulberry32 } from "../src/core/bitboard";
+import { todayString, type GameRecord } from "../src/core/gameRecord";
+import { applyMove, boardResult, createVariantGame, generateMoves, opponent, playMove } from "../src/core/rules";
+import { createTranspositionTable, type TranspositionTable } from "../src/core/transposition";
+import type { GameResult, GameState, Move, Player, Variant } from "../src/types";
+
+/*
+  AI どうしの対戦（強さの比べ合い）。
+  ランダムに数手進めた序盤から、先手・後手を入れ替えて2局ずつ指す。
+  結果は A から見た勝ち・引き分け・負けと 95% 信頼区間、1手あたりの平均思考時間でまとめる。
+  エンジンの書き方： "<レベル>[/nobook][/nosolve][/d<深さ>][/<ミリ秒>ms]"  例) "expert/nobook/2000ms"
+    nobook  定跡を使わない
+    nosolve 終盤の読み切りをしない
+    d<n>    反復深化の最大深さを n にする
+    <n>ms   1手の思考時間の上限を n ミリ秒にする
+*/
+
+export type ArenaEngine = {
+  // 書いたとおりの名前（棋譜の White / Black にも使う）
+  name: string;
+  level: AiLevel;
+  overrides: Partial<AiLevelConfig>;
+};
+
+function isAiLevel(v: string): v is AiLevel {
+  return Object.prototype.hasOwnProperty.call(AI_LEVELS, v);
+}
+
+// 読めなければ null
+export function parseEngine(text: string): ArenaEngine | null {
+  const name = text.trim().toLowerCase();
+  const [level, ...flags] = name.split("/");
+  if (!isAiLevel(level)) return null;
+
+  const overrides: Partial<AiLevelConfig> = {};
+  for (const flag of flags) {
+    const depth = /^d(\d+)$/.exec(flag);
+    const time = /^(\d+)ms$/.exec(flag);
+    if (flag === "nobook" && overrides.book === undefined) overrides.book = false;
+    else if (flag === "nosolve" && overrides.solveEmpty === undefined) overrides.solveEmpty = 0;
+    else if (depth && Number(depth[1]) > 0 && overrides.maxDepth === undefined) overrides.maxDepth = Number(depth[1]);
+    else if (time && Number(time[1]) > 0 && overrides.timeMs === undefined) overrides.timeMs = Number(time[1]);
+    else return null;
+  }
+  return { name, level, overrides };
+}
+
+// 0 以上 1 未満を返すシード付きの乱数（同じシードなら同じ序盤・同じ手のぶれになる）
+export function seededRandom(seed: number): () => number {
+  const next = mulberry32(seed);
+  return () => next() / 2 ** 32;
+}
+
+// 決着の付かない手をランダムに plies 手
+export function randomOpening(variant: Variant, plies: number, random: () => number): Move[] {
+  let state = createVariantGame(variant);
+  const moves: Move[] = [];
+  for (let i = 0; i < plies; i++) {
+    const board = state.board;
+    const player = state.turn;
+    const quiet = generateMoves(board).filter((m) => applyMove(board, player, m, variant.winLength).winner === null);
+    if (quiet.length === 0) break;
+    const move = quiet[Math.floor(random() * quiet.length)];
+    state = playMove(state, move);
+    moves.push(move);
+  }
+  return moves;
+}
+
+/* =========================
+   対局
+========================= */
+
+export type ThinkTime = { ms: number; moves: number };
+
+export type ArenaGame = {
+  record: GameRecord;
+  // A が持った色
+  aSide: Player;
+  result: GameResult;
+  think: { a: ThinkTime; b: ThinkTime };
+};
+
+export type ArenaOptions = {
+  a: ArenaEngine;
+  b: ArenaEngine;
+  games: number;
+  // 序盤にランダムに進める手数
+  openingPlies: number;
+  variant: Variant;
+  seed: number;
+  // 棋譜の Date（省略時は今日）
+  date?: string;
+};
+
+// 決着まで指す。置換表は対局者ごとに分ける（相手の読みを使わないように）
+function playOut(
+  state: GameState,
+  engines: Record<Player, ArenaEngine>,
+  tables: Record<Player, TranspositionTable>,
+  random: () => number
+): { state: GameState; moves: Move[]; think: Record<Player, ThinkTime> } {
+  const moves: Move[] = [];
+  const think: Record<Player, ThinkTime> = { white: { ms: 0, moves: 0 }, black: { ms: 0, moves: 0 } };
+  while (!state.winner) {
+    const side = state.turn;
+    const engine = engines[side];
+    const start = performance.now();
+    const { move } = searchBestMove(state.board, side, engine.level, {
+      variant: state.variant,
+      random,
+      table: tables[side],
+      overrides: engine.overrides,
+    });
+    think[side].ms += performance.now() - start;
+    think[side].moves++;
+    state = playMove(state, move);
+    moves.push(move);
+  }
+  return { state, moves, think };
+}
+
+// 1局ごとに onGame を呼ぶ（進み具合の表示用）
+export function runArena(options: ArenaOptions, onGame?: (g: ArenaGame, index: number) => void): ArenaGame[] {
+  const { a, b, games, openingPlies, variant } = options;
+  // 序盤は AI の指し手に左右されないよう、AI のぶれとは別の乱数で決める
+  const openings = seededRandom(options.seed);
+  const random = seededRandom(options.seed + 1);
+  const tables = { a: createTranspositionTable(), b: createTranspositionTable() };
+  const date = options.date ?? todayString();
+  const out: ArenaGame[] = [];
+
+  let opening: Move[] = [];
+  for (let i = 0; i < games; i++) {
+    // 同じ序盤を A の先手・後手で1局ずつ
+    if (i % 2 === 0) opening = randomOpening(variant, openingPlies, openings);
+    const aSide: Player = i % 2 === 0 ? "white" : "black";
+    const bSide = opponent(aSide);
+    const engines = aSide === "white" ? { white: a, black: b } : { white: b, black: a };
+    const aiTables = aSide === "white" ? { white: tables.a, black: tables.b } : { white: tables.b, black: tables.a };
+
+    const start = opening.reduce(playMove, createVariantGame(variant));
+    const played = playOut(start, engines, aiTables, random);
+    const result = boardResult(played.state.board, variant.winLength);
+    // 盤が埋まれば必ず決着するので、指し終えた局面には結果がある
+    if (!result) throw new Error("game ended without a result");
+
+    const game: ArenaGame = {
+      record: {
+        mode: "watch",
+        aiSide: null,
+        aiLevel: null,
+        players: { white: engines.white.name, black: engines.black.name },
+        date,
+        result,
+        variant,
+        start: null,
+        moves: [...opening, ...played.moves],
+      },
+      aSide,
+      result,
+      think: { a: played.think[aSide], b: played.think[bSide] },
+    };
+    out.push(game);
+    onGame?.(game, i);
+  }
+  return out;
+}
+
+/* =========================
+   集計
+========================= */
+
+// 95% 信頼区間の z 値
+const Z95 = 1.96;
+
+export type Interval = readonly [low: number, high: number];
+
+// 二項比率の Wilson スコア区間（試行が少なくても 0〜1 に収まる）
+export function wilsonInterval(k: number, n: number, z: number = Z95): Interval {
+  if (n === 0) return [0, 1];
+  const p = k / n;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / (1 + z2 / n);
+  return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+export type ArenaSummary = {
+  games: number;
+  // A から見た数
+  wins: number;
+  draws: number;
+  losses: number;
+  // A の得点率（勝ち 1・引き分け 0.5）
+  score: number;
+  intervals: { win: Interval; draw: Interval; loss: Interval; score: Interval };
+  // 1手あたりの平均思考時間（ミリ秒）
+  thinkMs: { a: number; b: number };
+};
+
+function averageThink(times: readonly ThinkTime[]): number {
+  const moves = times.reduce((n, t) => n + t.moves, 0);
+  return moves === 0 ? 0 : times.reduce((ms, t) => ms + t.ms, 0) / moves;
+}
+
+export function summarize(games: readonly ArenaGame[]): ArenaSummary {
+  const n = games.length;
+  const points: number[] = games.map((g) => (g.result.winner === "draw" ? 0.5 : g.result.winner === g.aSide ? 1 : 0));
+  const wins = points.filter((p) => p === 1).length;
+  const draws = points.filter((p) => p === 0.5).length;
+  const losses = n - wins - draws;
+
+  // 得点率は1局ごとの得点の平均として正規近似で
+  const score = n === 0 ? 0 : points.reduce((s, p) => s + p, 0) / n;
+  let scoreInterval: Interval = [0, 1];
+  if (n > 1) {
+    const variance = points.reduce((s, p) => s + (p - score) ** 2, 0) / (n - 1);
+    const half = Z95 * Math.sqrt(variance / n);
+    scoreInterval = [Math.max(0, score - half), Math.min(1, score + half)];
+  }
+
+  return {
+    games: n,
+    wins,
+    draws,
+    losses,
+    score,
+    intervals: {
+      win: wilsonInterval(wins, n),
+      draw: wilsonInterval(draws, n),
+      loss: wilsonInterval(losses, n),
+      score: scoreInterval,
+    },
+    thinkMs: { a: averageThink(games.map((g) => g.think.a)), b: averageThink(games.map((g) => g.think.b)) },
+  };
+}
@@ -0,0 +1,85 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { serializeGame } from "../src/core/gameRecord";
+import { parseVariant, variantLabel } from "../src/core/variant";
+import { parseEngine, runArena, summarize, type Interval } from "./arena";
+
+// AI どうしの対戦：npm run arena -- <エンジンA> <エンジンB> [--games 20] [--opening 2] [--variant 6x6/5] [--seed 1] [--out dir]
+const USAGE = `usage: npm run arena -- <engineA> <engineB> [options]
+
+  engine       <level>[/nobook][/nosolve][/d<depth>][/<ms>ms]   e.g. expert, hard/nobook/1000ms
+               level: easy | normal | hard | expert
+  --games N    number of games (default 20; colours alternate on the same opening)
+  --opening N  random plies before the engines take over (default 2)
+  --variant V  rule variant, e.g. 9x9/5/skip (default 6x6/5)
+  --seed N     seed for openings and AI noise (default 1)
+  --out DIR    write each game as DIR/game-001.txt in the game record format`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function count(text: string, name: string, min: number): number {
+  const n = Number(text);
+  if (!Number.isInteger(n) || n < min) fail(`invalid --${name}: "${text}"`);
+  return n;
+}
+
+const percent = (x: number) => `${(x * 100).toFixed(1)}%`;
+const interval = ([low, high]: Interval) => `[${percent(low)}, ${percent(high)}]`;
+
+const OPTIONS = {
+  games: { type: "string", default: "20" },
+  opening: { type: "string", default: "2" },
+  variant: { type: "string", default: "6x6/5" },
+  seed: { type: "string", default: "1" },
+  out: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+function readArgs() {
+  try {
+    return parseArgs({ options: OPTIONS, allowPositionals: true });
+  } catch (e) {
+    fail(e instanceof Error ? e.message : String(e));
+  }
+}
+
+const args = readArgs();
+if (args.values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (args.positionals.length !== 2) fail("expected two engines");
+
+const [a, b] = args.positionals.map((text) => parseEngine(text) ?? fail(`invalid engine: "${text}"`));
+const variant = parseVariant(args.values.variant) ?? fail(`invalid --variant: "${args.values.variant}"`);
+const games = count(args.values.games, "games", 1);
+const openingPlies = count(args.values.opening, "opening", 0);
+const seed = count(args.values.seed, "seed", 0);
+const out = args.values.out;
+
+console.log(`${a.name} vs ${b.name}: ${games} games, ${variantLabel(variant)}, opening ${openingPlies} plies, seed ${seed}`);
+if (out) mkdirSync(out, { recursive: true });
+
+const played = runArena({ a, b, games, openingPlies, variant, seed }, (g, i) => {
+  const white = g.record.players?.white;
+  const black = g.record.players?.black;
+  const winner = g.result.winner === "draw" ? "draw" : `${g.result.winner} wins`;
+  console.log(
+    `game ${i + 1}/${games}: ${white} (white) vs ${black} (black) — ${winner} (${g.result.reason}), ${g.record.moves.length} moves`
+  );
+  if (out) writeFileSync(join(out, `game-${String(i + 1).padStart(3, "0")}.txt`), serializeGame(g.record));
+});
+
+const s = summarize(played);
+console.log("");
+console.log(`${a.name} (A) vs ${b.name} (B), ${s.games} games`);
+console.log(`  A wins    ${String(s.wins).padStart(4)}  ${percent(s.wins / s.games)} ${interval(s.intervals.win)}`);
+console.log(`  draws     ${String(s.draws).padStart(4)}  ${percent(s.draws / s.games)} ${interval(s.intervals.draw)}`);
+console.log(`  A losses  ${String(s.losses).padStart(4)}  ${percent(s.losses / s.games)} ${interval(s.intervals.loss)}`);
+console.log(`  A score         ${percent(s.score)} ${interval(s.intervals.score)}  (95% confidence)`);
+console.log(`  think time      A ${s.thinkMs.a.toFixed(0)} ms/move, B ${s.thinkMs.b.toFixed(0)} ms/move`);
+if (out) console.log(`  games written to ${out}`);
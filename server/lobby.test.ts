@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { ServerMessage } from "../src/online/protocol";
+import { createLobby, type Outgoing } from "./lobby";
+
+function setup() {
+  let t = 0;
+  let n = 0;
+  const lobby = createLobby({ random: () => 0.5, token: () => `token-${++n}`, now: () => t, idleMs: 1000 });
+  return { lobby, advance: (ms: number) => (t += ms) };
+}
+
+function to(out: Outgoing[], client: string): ServerMessage[] {
+  return out.filter((o) => o.to === client).map((o) => o.message);
+}
+
+// A（白）が部屋を作り B（黒）が入った状態
+function seatedPair() {
+  const s = setup();
+  const [created] = s.lobby.handle("A", { type: "create" });
+  if (created.message.type !== "joined") throw new Error("create failed");
+  const room = created.message.snapshot.room;
+  s.lobby.handle("B", { type: "join", room: room.toLowerCase() });
+  return { ...s, room, tokenA: created.message.token };
+}
+
+const move = (x: number, y: number, ply: number) =>
+  ({ type: "move", move: { pos: { x, y }, quadrant: 3, dir: "cw" }, ply }) as const;
+
+describe("lobby", () => {
+  it("creates a room and seats the joiner as the other side", () => {
+    const { lobby } = setup();
+    const [created] = lobby.handle("A", { type: "create", side: "black" });
+    expect(created.message).toMatchObject({ type: "joined", side: "black" });
+    if (created.message.type !== "joined") return;
+
+    const out = lobby.handle("B", { type: "join", room: created.message.snapshot.room });
+    expect(to(out, "B")[0]).toMatchObject({ type: "joined", side: "white" });
+    expect(to(out, "A")[0]).toMatchObject({ type: "sync", snapshot: { seats: { white: "connected" } } });
+
+    expect(lobby.handle("C", { type: "join", room: created.message.snapshot.room })[0].message).toMatchObject({
+      code: "roomFull",
+    });
+    expect(lobby.handle("C", { type: "join", room: "ZZZZZ" })[0].message).toMatchObject({ code: "noRoom" });
+
+  });
+
+  it("keeps the seat when a player joins their own room again", () => {
+    const { lobby } = setup();
+    const [created] = lobby.handle("A", { type: "create" });
+    if (created.message.type !== "joined") throw new Error("create failed");
+    const room = created.message.snapshot.room;
+
+    // 色は変わらず、空いている席もそのまま
+    const again = lobby.handle("A", { type: "join", room });
+    expect(again).toEqual([{ to: "A", message: expect.objectContaining({ type: "joined", side: "white" }) }]);
+    expect(to(lobby.handle("B", { type: "join", room }), "B")[0]).toMatchObject({ type: "joined", side: "black" });
+  });
+
+  it("validates moves with the rules and broadcasts the new state", () => {
+    const { lobby } = seatedPair();
+    const early = to(lobby.handle("B", move(0, 0, 0)), "B");
+    expect(early[0]).toMatchObject({ code: "notYourTurn" });
+    // 拒否した手は送り主の盤から消せるよう、部屋の状態も送る
+    expect(early[1]).toMatchObject({ type: "sync", snapshot: { moves: [] } });
+
+    const out = lobby.handle("A", move(0, 0, 0));
+    for (const c of ["A", "B"]) {
+      expect(to(out, c)[0]).toMatchObject({ type: "sync", snapshot: { moves: [{ player: "white" }] } });
+    }
+
+    // 同じマスには置けない
+    expect(to(lobby.handle("B", move(0, 0, 1)), "B").map((m) => m.type)).toEqual(["error", "sync"]);
+    // 古い手数で送ってきた手は拒否して最新を送り直す
+    const stale = to(lobby.handle("B", move(1, 1, 0)), "B");
+    expect(stale.map((m) => m.type)).toEqual(["error", "sync"]);
+  });
+
+  it("ends the game by resignation or an accepted draw offer", () => {
+    const a = seatedPair();
+    const resigned = to(a.lobby.handle("B", { type: "resign" }), "A")[0];
+    expect(resigned).toMatchObject({ snapshot: { result: { winner: "white", reason: "resign" } } });
+    const late = to(a.lobby.handle("A", move(0, 0, 0)), "A");
+    expect(late[0]).toMatchObject({ code: "finished" });
+    expect(late[1]).toMatchObject({ type: "sync", snapshot: { moves: [], result: { reason: "resign" } } });
+
+    const b = seatedPair();
+    expect(to(b.lobby.handle("A", { type: "drawReply", accept: true }), "A")[0]).toMatchObject({
+      code: "badMessage",
+    });
+    b.lobby.handle("A", { type: "drawOffer" });
+    const drawn = to(b.lobby.handle("B", { type: "drawReply", accept: true }), "A")[0];
+    expect(drawn).toMatchObject({ snapshot: { result: { winner: "draw", reason: "agreement" }, drawOfferBy: null } });
+  });
+
+  it("lets a dropped player back into their seat with the token", () => {
+    const { lobby, room, tokenA, advance } = seatedPair();
+    lobby.handle("A", move(0, 0, 0));
+
+    expect(to(lobby.disconnect("A"), "B")[0]).toMatchObject({ snapshot: { seats: { white: "disconnected" } } });
+    expect(lobby.handle("A2", { type: "reconnect", room, token: "nope" })[0].message).toMatchObject({
+      code: "badToken",
+    });
+
+    const out = lobby.handle("A2", { type: "reconnect", room, token: tokenA });
+    expect(to(out, "A2")[0]).toMatchObject({ type: "joined", side: "white", snapshot: { moves: [{}] } });
+
+    // 全員いなくなってしばらくすると部屋は消える
+    lobby.disconnect("A2");
+    lobby.disconnect("B");
+    advance(999);
+    lobby.prune();
+    expect(lobby.roomCount()).toBe(1);
+    advance(1);
+    lobby.prune();
+    expect(lobby.roomCount()).toBe(0);
+  });
+});
@@ -0,0 +1,232 @@
+import type { MoveRecord } from "../src/core/history";
+import { IllegalMoveError, boardResult, createGame, opponent, playMove } from "../src/core/rules";
+import {
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  normalizeRoomCode,
+  type ClientMessage,
+  type OnlineErrorCode,
+  type RoomSnapshot,
+  type ServerMessage,
+} from "../src/online/protocol";
+import type { GameResult, GameState, Player } from "../src/types";
+
+/*
+  部屋と対局の管理（通信は持たない）。
+  接続ごとの id でメッセージを受け取り、誰に何を送るかを Outgoing の配列で返す。
+  手の合法性は src/core のルールで判定するので、ブラウザ側と食い違わない。
+*/
+
+export type Outgoing = { to: string; message: ServerMessage };
+
+export type Lobby = {
+  handle: (client: string, msg: ClientMessage) => Outgoing[];
+  disconnect: (client: string) => Outgoing[];
+  // 誰も接続していない時間が idleMs を超えた部屋を消す
+  prune: (now?: number) => void;
+  roomCount: () => number;
+};
+
+export type LobbyOptions = {
+  random?: () => number;
+  token?: () => string;
+  now?: () => number;
+  idleMs?: number;
+};
+
+type Seat = { token: string; client: string | null };
+
+type Room = {
+  code: string;
+  state: GameState;
+  moves: MoveRecord[];
+  result: GameResult | null;
+  drawOfferBy: Player | null;
+  seats: Record<Player, Seat | null>;
+  // 両者とも切断した時刻（誰かいれば null）
+  idleSince: number | null;
+};
+
+const PLAYERS: readonly Player[] = ["white", "black"];
+
+export function createLobby(options: LobbyOptions = {}): Lobby {
+  const random = options.random ?? Math.random;
+  const newToken = options.token ?? (() => globalThis.crypto.randomUUID());
+  const now = options.now ?? Date.now;
+  const idleMs = options.idleMs ?? 10 * 60 * 1000;
+
+  const rooms = new Map<string, Room>();
+  const seated = new Map<string, { code: string; side: Player }>();
+
+  function newCode(): string {
+    for (;;) {
+      let code = "";
+      for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+        code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+      }
+      if (!rooms.has(code)) return code;
+    }
+  }
+
+  function snapshot(room: Room): RoomSnapshot {
+    const status = (seat: Seat | null) => (!seat ? "empty" : seat.client ? "connected" : "disconnected");
+    return {
+      room: room.code,
+      moves: room.moves.slice(),
+      result: room.result,
+      drawOfferBy: room.drawOfferBy,
+      seats: { white: status(room.seats.white), black: status(room.seats.black) },
+    };
+  }
+
+  function error(to: string, code: OnlineErrorCode, message: string): Outgoing[] {
+    return [{ to, message: { type: "error", code, message } }];
+  }
+
+  // 受け付けなかった手の送り主へ。相手のクライアントはもう盤に置いているので、部屋の状態も送って戻させる
+  function rejectMove(to: string, room: Room, code: OnlineErrorCode, message: string): Outgoing[] {
+    return [...error(to, code, message), { to, message: { type: "sync", snapshot: snapshot(room) } }];
+  }
+
+  // 部屋にいる全員（except を除く）へ最新状態を送る
+  function broadcast(room: Room, except: string | null = null): Outgoing[] {
+    const out: Outgoing[] = [];
+    for (const p of PLAYERS) {
+      const client = room.seats[p]?.client;
+      if (client && client !== except) out.push({ to: client, message: { type: "sync", snapshot: snapshot(room) } });
+    }
+    return out;
+  }
+
+  function sit(client: string, room: Room, side: Player): Outgoing[] {
+    const seat = room.seats[side] ?? { token: newToken(), client: null };
+    room.seats[side] = seat;
+    seat.client = client;
+    room.idleSince = null;
+    seated.set(client, { code: room.code, side });
+    return [
+      { to: client, message: { type: "joined", side, token: seat.token, snapshot: snapshot(room) } },
+      ...broadcast(room, client),
+    ];
+  }
+
+  // 今いる部屋から離れる（接続が切れたのと同じ扱い。席は再接続用に残す）
+  function leave(client: string): Outgoing[] {
+    const at = seated.get(client);
+    if (!at) return [];
+    seated.delete(client);
+    const room = rooms.get(at.code);
+    const seat = room?.seats[at.side];
+    if (!room || !seat || seat.client !== client) return [];
+    seat.client = null;
+    if (PLAYERS.every((p) => !room.seats[p]?.client)) room.idleSince = now();
+    return broadcast(room);
+  }
+
+  function finish(room: Room, result: GameResult): Outgoing[] {
+    room.result = result;
+    room.drawOfferBy = null;
+    return broadcast(room);
+  }
+
+  function play(client: string, room: Room, side: Player, msg: ClientMessage): Outgoing[] {
+    switch (msg.type) {
+      case "move": {
+        if (room.result) return rejectMove(client, room, "finished", "game is over");
+        if (room.state.turn !== side) return rejectMove(client, room, "notYourTurn", "not your turn");
+        if (msg.ply !== room.moves.length) {
+          return rejectMove(client, room, "stale", `expected ply ${room.moves.length}, got ${msg.ply}`);
+        }
+        try {
+          room.state = playMove(room.state, msg.move);
+        } catch (e) {
+          if (!(e instanceof IllegalMoveError)) throw e;
+          return rejectMove(client, room, "illegal", e.message);
+        }
+        const { pos, quadrant, dir } = msg.move;
+        room.moves.push({ player: side, pos: { x: pos.x, y: pos.y }, quadrant, dir });
+        // 手を指したら出ていた引き分け提案は取り下げ扱い
+        room.drawOfferBy = null;
+        const ended = boardResult(room.state.board);
+        if (ended) return finish(room, ended);
+        return broadcast(room);
+      }
+      case "resign":
+        if (room.result) return error(client, "finished", "game is over");
+        return finish(room, { winner: opponent(side), reason: "resign" });
+      case "drawOffer":
+        if (room.result) return error(client, "finished", "game is over");
+        room.drawOfferBy = side;
+        return broadcast(room);
+      case "drawReply":
+        if (room.result) return error(client, "finished", "game is over");
+        if (room.drawOfferBy !== opponent(side)) return error(client, "badMessage", "no draw offer to answer");
+        if (msg.accept) return finish(room, { winner: "draw", reason: "agreement" });
+        room.drawOfferBy = null;
+        return broadcast(room);
+      case "sync":
+        return [{ to: client, message: { type: "sync", snapshot: snapshot(room) } }];
+      default:
+        return error(client, "badMessage", `unexpected ${msg.type} while in a room`);
+    }
+  }
+
+  function handle(client: string, msg: ClientMessage): Outgoing[] {
+    switch (msg.type) {
+      case "create": {
+        const out = leave(client);
+        const room: Room = {
+          code: newCode(),
+          state: createGame(),
+          moves: [],
+          result: null,
+          drawOfferBy: null,
+          seats: { white: null, black: null },
+          idleSince: null,
+        };
+        rooms.set(room.code, room);
+        return [...out, ...sit(client, room, msg.side ?? "white")];
+      }
+      case "join": {
+        const room = rooms.get(normalizeRoomCode(msg.room));
+        if (!room) return error(client, "noRoom", `no room ${msg.room}`);
+        // すでに座っている部屋なら席はそのまま（入り直すと色が入れ替わり、空いた席も塞がってしまう）
+        const at = seated.get(client);
+        const mine = at?.code === room.code ? room.seats[at.side] : null;
+        if (at && mine?.client === client) {
+          return [{ to: client, message: { type: "joined", side: at.side, token: mine.token, snapshot: snapshot(room) } }];
+        }
+        const side = PLAYERS.find((p) => !room.seats[p]);
+        if (!side) return error(client, "roomFull", "room is full");
+        return [...leave(client), ...sit(client, room, side)];
+      }
+      case "reconnect": {
+        const room = rooms.get(normalizeRoomCode(msg.room));
+        if (!room) return error(client, "noRoom", `no room ${msg.room}`);
+        const side = PLAYERS.find((p) => room.seats[p]?.token === msg.token);
+        if (!side) return error(client, "badToken", "unknown token");
+        // 古い接続がまだ残っていれば席から外す
+        const old = room.seats[side]?.client;
+        if (old && old !== client) seated.delete(old);
+        return [...leave(client), ...sit(client, room, side)];
+      }
+      default: {
+        const at = seated.get(client);
+        const room = at && rooms.get(at.code);
+        if (!at || !room) return error(client, "notInRoom", "join a room first");
+        return play(client, room, at.side, msg);
+      }
+    }
+  }
+
+  return {
+    handle,
+    disconnect: leave,
+    prune(t = now()) {
+      for (const [code, room] of rooms) {
+        if (room.idleSince !== null && t - room.idleSince >= idleMs) rooms.delete(code);
+      }
+    },
+    roomCount: () => rooms.size,
+  };
+}
@@ -0,0 +1,13 @@
+import { DEFAULT_ONLINE_PORT } from "../src/online/protocol";
+import { startServer } from "./server";
+
+// 開発用のオンライン対戦サーバー：npm run server（PORT で待ち受けポートを変えられる）
+const port = Number(process.env.PORT ?? DEFAULT_ONLINE_PORT);
+
+startServer(port).then(
+  (s) => console.log(`pentago online server: ws://localhost:${s.port}`),
+  (e: unknown) => {
+    console.error(e);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import type { ClientMessage, ServerMessage } from "../src/online/protocol";
+import { startServer, type OnlineServer } from "./server";
+
+// 受信したメッセージを順に取り出せる WebSocket クライアント
+async function connect(port: number) {
+  const ws = new WebSocket(`ws://localhost:${port}`);
+  const inbox: ServerMessage[] = [];
+  const waiting: ((m: ServerMessage) => void)[] = [];
+  ws.on("message", (data) => {
+    const msg = JSON.parse(data.toString()) as ServerMessage;
+    const w = waiting.shift();
+    if (w) w(msg);
+    else inbox.push(msg);
+  });
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+  return {
+    ws,
+    send: (m: ClientMessage) => ws.send(JSON.stringify(m)),
+    next: () =>
+      new Promise<ServerMessage>((resolve) => {
+        const m = inbox.shift();
+        if (m) resolve(m);
+        else waiting.push(resolve);
+      }),
+  };
+}
+
+describe("online server", () => {
+  let server: OnlineServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("plays a move between two sockets", async () => {
+    server = await startServer(0);
+    const a = await connect(server.port);
+    const b = await connect(server.port);
+
+    a.send({ type: "create" });
+    const joined = await a.next();
+    if (joined.type !== "joined") throw new Error(`unexpected ${joined.type}`);
+
+    b.send({ type: "join", room: joined.snapshot.room });
+    expect(await b.next()).toMatchObject({ type: "joined", side: "black" });
+    expect(await a.next()).toMatchObject({ type: "sync" });
+
+    a.send({ type: "move", move: { pos: { x: 2, y: 3 }, quadrant: 0, dir: "ccw" }, ply: 0 });
+    const seen = await b.next();
+    expect(seen).toMatchObject({ type: "sync", snapshot: { moves: [{ player: "white", pos: { x: 2, y: 3 } }] } });
+    expect(await a.next()).toEqual(seen);
+
+    b.ws.send("not json");
+    expect(await b.next()).toMatchObject({ type: "error", code: "badMessage" });
+
+    b.ws.close();
+    expect(await a.next()).toMatchObject({ snapshot: { seats: { black: "disconnected" } } });
+  });
+
+  it("drops only the socket that sends a broken frame", async () => {
+    server = await startServer(0);
+    const a = await connect(server.port);
+    const bad = await connect(server.port);
+
+    // UTF-8 として読めないテキストフレーム
+    const closed = new Promise((resolve) => bad.ws.once("close", resolve));
+    bad.ws.send(Buffer.from([0xff, 0xfe]), { binary: false });
+    await closed;
+
+    a.send({ type: "create" });
+    expect(await a.next()).toMatchObject({ type: "joined", side: "white" });
+  });
+});
@@ -0,0 +1,65 @@
+import { WebSocketServer, type WebSocket } from "ws";
+import { DEFAULT_ONLINE_PORT, parseClientMessage } from "../src/online/protocol";
+import { createLobby, type LobbyOptions, type Outgoing } from "./lobby";
+
+export type OnlineServer = {
+  port: number;
+  close: () => Promise<void>;
+};
+
+// port に 0 を渡すと空いているポートを使う（テスト用）
+export function startServer(port = DEFAULT_ONLINE_PORT, options: LobbyOptions = {}): Promise<OnlineServer> {
+  const lobby = createLobby(options);
+  const sockets = new Map<string, WebSocket>();
+  let nextId = 1;
+
+  const wss = new WebSocketServer({ port });
+
+  function deliver(out: Outgoing[]) {
+    for (const { to, message } of out) {
+      const ws = sockets.get(to);
+      if (ws && ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+    }
+  }
+
+  wss.on("connection", (ws) => {
+    const id = String(nextId++);
+    sockets.set(id, ws);
+
+    ws.on("message", (data) => {
+      const msg = parseClientMessage(data.toString());
+      if (!msg) {
+        deliver([{ to: id, message: { type: "error", code: "badMessage", message: "malformed message" } }]);
+        return;
+      }
+      deliver(lobby.handle(id, msg));
+    });
+
+    // 不正なフレーム（壊れた UTF-8・大きすぎるデータ）はこの接続だけ切る。
+    // リスナーがないと error でサーバーごと落ちる。後片付けは close で
+    ws.on("error", () => ws.terminate());
+
+    ws.on("close", () => {
+      sockets.delete(id);
+      deliver(lobby.disconnect(id));
+    });
+  });
+
+  const pruneTimer = setInterval(() => lobby.prune(), 60 * 1000);
+
+  return new Promise((resolve, reject) => {
+    wss.once("error", reject);
+    wss.once("listening", () => {
+      const address = wss.address();
+      resolve({
+        port: typeof address === "object" && address ? address.port : port,
+        close: () =>
+          new Promise<void>((done) => {
+            clearInterval(pruneTimer);
+            for (const ws of sockets.values()) ws.terminate();
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from "react";
+import Board from "./Board";
+import EvalGraph from "./EvalGraph";
+import {
+  ANALYSIS_LEVEL,
+  ANALYSIS_OVERRIDES,
+  finalEval,
+  formatEval,
+  reviewMoves,
+  toWhiteScore,
+  type MoveFlag,
+  type PositionEval,
+} from "./core/analysis";
+import { stateAt, type History } from "./core/history";
+import { formatMove } from "./core/notation";
+import { boardResult } from "./core/rules";
+import { buttonStyle } from "./styles";
+import { createAiClient } from "./worker/aiClient";
+
+const FLAG_TEXT: Record<MoveFlag, string> = {
+  missedWin: "勝ちを逃した",
+  allowedWin: "相手に勝ちを許した",
+};
+
+type Props = {
+  history: History;
+  onBack: () => void;
+};
+
+/* =========================
+   終局後の振り返り
+========================= */
+
+export default function AnalysisPanel({ history, onBack }: Props) {
+  const moves = useMemo(() => history.moves.slice(0, history.cursor), [history]);
+  // states[i] は i 手目の後の局面
+  const states = useMemo(
+    () => Array.from({ length: history.cursor + 1 }, (_, i) => stateAt(history, i)),
+    [history]
+  );
+
+  const [evals, setEvals] = useState<PositionEval[]>([]);
+  const [error, setError] = useState("");
+  const [ply, setPly] = useState(history.cursor);
+
+  // 開始局面から順に AI で読む。画面を離れたら Worker ごと止める
+  useEffect(() => {
+    const client = createAiClient();
+    let cancelled = false;
+
+    async function run() {
+      const out: PositionEval[] = [];
+      for (const s of states) {
+        const ended = s.winner ? boardResult(s.board, s.variant.winLength) : null;
+        if (ended) {
+          out.push(finalEval(ended));
+        } else {
+          const r = await client.search(s.board, s.turn, ANALYSIS_LEVEL, s.variant, undefined, ANALYSIS_OVERRIDES);
+          if (cancelled) return;
+          out.push({ score: toWhiteScore(r.score, s.turn), best: r.move, depth: r.depth });
+        }
+        setEvals(out.slice());
+      }
+    }
+
+    run().catch((e: unknown) => {
+      if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+    });
+    return () => {
+      cancelled = true;
+      client.dispose();
+    };
+  }, [states]);
+
+  const reviews = useMemo(() => reviewMoves(moves, evals), [moves, evals]);
+  const done = evals.length === states.length;
+  const current = evals[ply] ?? null;
+  const played = ply > 0 ? reviews[ply - 1] : undefined;
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <div style={{ fontSize: 20, fontWeight: 950 }}>振り返り</div>
+        <button onClick={onBack} style={buttonStyle}>
+          対局に戻る
+        </button>
+      </div>
+
+      <div role="status" style={{ fontSize: 13, opacity: 0.8 }}>
+        {error
+          ? `解析できませんでした（${error}）`
+          : done
+            ? `解析完了：${reviews.filter((r) => r.flag).length}手に印が付きました`
+            : `解析中…（${evals.length}/${states.length}局面）`}
+      </div>
+
+      <EvalGraph evals={evals} reviews={reviews} total={states.length} selected={ply} onSelect={setPly} />
+
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <button onClick={() => setPly((p) => Math.max(0, p - 1))} disabled={ply === 0} aria-label="前の局面" style={buttonStyle}>
+          ◀
+        </button>
+        <div style={{ flex: 1, textAlign: "center", fontSize: 13, fontWeight: 900 }}>
+          {ply === 0 ? "開始局面" : `${ply}手目 ${formatMove(moves[ply - 1])}`}
+        </div>
+        <button
+          onClick={() => setPly((p) => Math.min(states.length - 1, p + 1))}
+          disabled={ply === states.length - 1}
+          aria-label="次の局面"
+          style={buttonStyle}
+        >
+          ▶
+        </button>
+      </div>
+
+      <div style={{ fontSize: 13, display: "grid", gap: 4 }}>
+        {played?.flag && (
+          <div style={{ color: "#b91c1c", fontWeight: 900 }}>
+            ✗ {FLAG_TEXT[played.flag]}
+            {played.before.best && `（${formatMove(played.before.best)} が最善）`}
+          </div>
+        )}
+        <div>
+          評価値：{current ? `${formatEval(current.score)}（深さ${current.depth}）` : "読んでいます…"}
+        </div>
+        {current?.best && <div>この局面の最善手：{formatMove(current.best)}</div>}
+      </div>
+
+      <Board state={states[ply]} onTapCell={() => {}} selectedQuadrant={0} />
+
+      <ol style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 4 }}>
+        {moves.map((m, i) => {
+          const r = reviews[i];
+          const isSel = ply === i + 1;
+          return (
+            <li key={i}>
+              <button
+                onClick={() => setPly(i + 1)}
+                aria-current={isSel ? "step" : undefined}
+                style={{
+                  width: "100%",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  padding: "6px 8px",
+                  borderRadius: 8,
+                  border: isSel ? "1px solid rgba(99,102,241,0.8)" : "1px solid transparent",
+                  background: isSel ? "rgba(99,102,241,0.10)" : "transparent",
+                  fontSize: 13,
+                  fontVariantNumeric: "tabular-nums",
+                  textAlign: "left",
+                  cursor: "pointer",
+                }}
+              >
+                <span style={{ opacity: 0.55, minWidth: 22, textAlign: "right" }}>{i + 1}.</span>
+                <span style={{ fontWeight: 800, minWidth: 60 }}>
+                  {m.player === "white" ? "白" : "黒"} {formatMove(m)}
+                </span>
+                <span style={{ opacity: 0.7 }}>{r ? formatEval(r.after.score) : "…"}</span>
+                {r?.flag && <span style={{ color: "#b91c1c", fontWeight: 900 }}>✗ {FLAG_TEXT[r.flag]}</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
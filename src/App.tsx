@@ -1,160 +1,76 @@
 import { useEffect, useMemo, useState, useRef } from "react";
-import Board from "./Board";
-import type { CellValue, GameMode, Phase, Player, Pos, Screen } from "./types";
-
-/* =========================
-   Utility / Game Logic
-========================= */
-
-function createEmptyBoard(): CellValue[][] {
-  return Array.from({ length: 6 }, () => Array<CellValue>(6).fill(null));
-}
-
-function cloneBoard(b: CellValue[][]): CellValue[][] {
-  return b.map((row) => row.slice());
-}
-
-// quadrant: 0=左上,1=右上,2=左下,3=右下
-function rotateQuadrant(board: CellValue[][], quadrant: number, dir: "cw" | "ccw"): CellValue[][] {
-  const b = cloneBoard(board);
-  const ox = quadrant % 2 === 0 ? 0 : 3;
-  const oy = quadrant < 2 ? 0 : 3;
-
-  const m: CellValue[][] = Array.from({ length: 3 }, (_, y) =>
-    Array.from({ length: 3 }, (_, x) => b[oy + y][ox + x])
-  );
-
-  const r: CellValue[][] = Array.from({ length: 3 }, () => Array<CellValue>(3).fill(null));
-
-  for (let y = 0; y < 3; y++) {
-    for (let x = 0; x < 3; x++) {
-      if (dir === "cw") r[x][2 - y] = m[y][x];
-      else r[2 - x][y] = m[y][x];
-    }
-  }
-
-  for (let y = 0; y < 3; y++) {
-    for (let x = 0; x < 3; x++) {
-      b[oy + y][ox + x] = r[y][x];
-    }
-  }
-  return b;
-}
-
-function inBounds(x: number, y: number) {
-  return x >= 0 && x < 6 && y >= 0 && y < 6;
-}
-
-function hasFive(board: CellValue[][], p: Player): boolean {
-  const dirs = [
-    { dx: 1, dy: 0 },
-    { dx: 0, dy: 1 },
-    { dx: 1, dy: 1 },
-    { dx: 1, dy: -1 },
-  ];
-
-  for (let y = 0; y < 6; y++) {
-    for (let x = 0; x < 6; x++) {
-      if (board[y][x] !== p) continue;
-      for (const { dx, dy } of dirs) {
-        let ok = true;
-        for (let k = 1; k < 5; k++) {
-          const nx = x + dx * k;
-          const ny = y + dy * k;
-          if (!inBounds(nx, ny) || board[ny][nx] !== p) {
-            ok = false;
-            break;
-          }
-        }
-        if (ok) return true;
-      }
-    }
-  }
-  return false;
-}
-
-function isFull(board: CellValue[][]): boolean {
-  for (let y = 0; y < 6; y++) for (let x = 0; x < 6; x++) if (board[y][x] === null) return false;
-  return true;
-}
-
-function checkWinner(board: CellValue[][]): Player | "draw" | null {
-  const w = hasFive(board, "white");
-  const b = hasFive(board, "black");
-  if (w && b) return "draw";
-  if (w) return "white";
-  if (b) return "black";
-  if (isFull(board)) return "draw";
-  return null;
-}
-
-/* ======= AI ======= */
-
-type Move = { pos: Pos; quadrant: number; dir: "cw" | "ccw" };
-
-function applyMove(
-  board: CellValue[][],
-  player: Player,
-  pos: Pos,
-  quadrant: number,
-  dir: "cw" | "ccw"
-): { board: CellValue[][]; winner: Player | "draw" | null } {
-  const placed = cloneBoard(board);
-  placed[pos.y][pos.x] = player;
-  const rotated = rotateQuadrant(placed, quadrant, dir);
-  const w = checkWinner(rotated);
-  return { board: rotated, winner: w };
-}
-
-function generateMoves(board: CellValue[][]): Move[] {
-  const moves: Move[] = [];
-  for (let y = 0; y < 6; y++) {
-    for (let x = 0; x < 6; x++) {
-      if (board[y][x] !== null) continue;
-      for (let q = 0; q < 4; q++) {
-        moves.push({ pos: { x, y }, quadrant: q, dir: "cw" });
-        moves.push({ pos: { x, y }, quadrant: q, dir: "ccw" });
-      }
-    }
-  }
-  return moves;
-}
-
-function chooseAiMove(board: CellValue[][], ai: Player): Move {
-  const opp: Player = ai === "white" ? "black" : "white";
-  const candidates = generateMoves(board);
-
-  // 1) 即勝ちがあればそれ
-  for (const m of candidates) {
-    const r = applyMove(board, ai, m.pos, m.quadrant, m.dir);
-    if (r.winner === ai) return m;
-  }
-
-  // 2) 相手の即勝ちを減らす（簡易）
-  let best = candidates[Math.floor(Math.random() * candidates.length)];
-  let bestScore = -Infinity;
-
-  for (const m of candidates) {
-    const afterAi = applyMove(board, ai, m.pos, m.quadrant, m.dir);
-    if (afterAi.winner === ai) return m;
-
-    const oppMoves = generateMoves(afterAi.board);
-    let oppWinCount = 0;
-    for (const om of oppMoves) {
-      const afterOpp = applyMove(afterAi.board, opp, om.pos, om.quadrant, om.dir);
-      if (afterOpp.winner === opp) oppWinCount++;
-      if (oppWinCount > 5) break;
-    }
-
-    const score = -oppWinCount + Math.random() * 0.01;
-    if (score > bestScore) {
-      bestScore = score;
-      best = m;
-    }
-  }
-
-  return best;
-}
+import AnalysisPanel from "./AnalysisPanel";
+import AssistBar from "./AssistBar";
+import Board, { type RotationAnimation } from "./Board";
+import { AI_LEVELS, acceptsDraw, describeSearch, type AiLevel } from "./core/ai";
+import {
+  IllegalMoveError,
+  boardResult,
+  canPlace,
+  confirmPlacement,
+  createGame,
+  createVariantGame,
+  isAdjudicated,
+  opponent,
+  place,
+  rotate,
+  skippableQuadrant,
+  undo,
+  winningPlacements,
+} from "./core/rules";
+import { STANDARD_VARIANT, drawRotation, isStandardVariant, variantLabel } from "./core/variant";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  moveTo,
+  pushMove,
+  redoTarget,
+  stateAt,
+  undoTarget,
+  type History,
+} from "./core/history";
+import { formatMove, formatPos } from "./core/notation";
+import { historyFromRecord, todayString, type GameRecord } from "./core/gameRecord";
+import { ExportActions, ImportPanel } from "./GameRecordPanel";
+import { POSITION_PARAM, positionFromSearch } from "./core/codec";
+import { isInitialPosition, validatePosition } from "./core/position";
+import GameActions from "./GameActions";
+import LevelPicker from "./LevelPicker";
+import ClockBar from "./ClockBar";
+import ScreenCard from "./ScreenCard";
+import { buttonStyle, choiceButtonStyle, menuButtonStyle } from "./styles";
+import TimeControlPicker from "./TimeControlPicker";
+import VariantPicker from "./VariantPicker";
+import WatchBar from "./WatchBar";
+import {
+  TIME_CONTROLS,
+  checkFlag,
+  completeMove,
+  createClock,
+  pauseClock,
+  startClock,
+  type Clock,
+  type TimeControlId,
+} from "./core/clock";
+import MoveList from "./MoveList";
+import MultiplayerPanel from "./MultiplayerPanel";
+import { createOnlineClient, defaultServerUrl, type ConnectionStatus, type OnlineClient } from "./online/onlineClient";
+import {
+  DEFAULT_ONLINE_PORT,
+  type ClientMessage,
+  type OnlineErrorCode,
+  type RoomSnapshot,
+  type ServerMessage,
+} from "./online/protocol";
+import { OnlineBar, OnlineLobby, type OnlineSession } from "./OnlinePanel";
+import { createPeerLink, type PeerLink } from "./online/peerLink";
+import { applyRemoteMove, historyFromMoves, type PeerMessage } from "./online/peerProtocol";
+import { PeerBar, PeerSetup, type PeerSession } from "./PeerPanel";
+import { clearSavedGame, loadSavedGame, saveGame, type SavedGame } from "./persistence";
+import PositionEditor from "./PositionEditor";
+import { createAiClient, type AiClient } from "./worker/aiClient";
+import type { Dir, GameMode, GameResult, GameState, Grid, Move, Player, Pos, Screen, Variant } from "./types";
 
 /* =========================
    UI Helpers
@@ -217,403 +133,1177 @@ function MiniBoardDecorationBelow() {
   );
 }
 
+// 画面には出さずスクリーンリーダーにだけ読ませる
+// ホームだけ背景に色を足す
+const HOME_BACKGROUND =
+  "radial-gradient(900px 500px at 20% 10%, rgba(99,102,241,0.25), transparent 60%)," +
+  "radial-gradient(800px 450px at 80% 20%, rgba(16,185,129,0.18), transparent 55%)," +
+  "linear-gradient(180deg, rgba(249,250,251,1), rgba(243,244,246,1))";
+
+// 終局後の大きめのボタン
+const resultButtonStyle = { ...buttonStyle, height: 44, padding: "0 16px", fontWeight: 950 } as const;
+
+const visuallyHidden = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+} as const;
+
+// 象限回転のアニメーション時間。動きを減らす設定なら 0（すぐ確定）
+const ROTATE_ANIMATION_MS = 350;
+
+function rotationDuration(): number {
+  if (typeof window === "undefined" || !window.matchMedia) return ROTATE_ANIMATION_MS;
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches ? 0 : ROTATE_ANIMATION_MS;
+}
+
+// ヒントは対局の強さ設定に関係なく「むずかしい」で読む
+const HINT_LEVEL: AiLevel = "hard";
+
+// 観戦で対局者を呼ぶ名前（棋譜の White / Black にも使う）
+function aiName(level: AiLevel): string {
+  return `AI（${AI_LEVELS[level].label}）`;
+}
+
+const ONLINE_ERROR_TEXT: Record<OnlineErrorCode, string> = {
+  badMessage: "サーバーが要求を受け付けませんでした",
+  noRoom: "その部屋コードは見つかりません",
+  roomFull: "その部屋はもう満員です",
+  badToken: "部屋に戻れませんでした",
+  notInRoom: "部屋に入っていません",
+  notYourTurn: "相手の番です",
+  stale: "局面がずれていたので同期し直しました",
+  illegal: "その手は打てません",
+  finished: "対局は終わっています",
+};
+
+function resultText({ winner, reason }: GameResult): string {
+  if (winner === "draw") {
+    if (reason === "doubleFive") return "同時に5つ並んで引き分け！";
+    if (reason === "agreement") return "合意により引き分け！";
+    return "盤が埋まって引き分け！";
+  }
+  const name = winner === "white" ? "白" : "黒";
+  if (reason === "resign") return `${name}の勝ち！（${winner === "white" ? "黒" : "白"}が投了）`;
+  if (reason === "timeout") return `時間切れ：${name}の勝ち！`;
+  return `${name}の勝ち！`;
+}
+
+// URL に局面コード（?pos=）があればその局面から始める
+function readUrlStart(): GameState | null {
+  if (typeof window === "undefined") return null;
+  const p = positionFromSearch(window.location.search);
+  if (!p || validatePosition(p.board, p.turn).length > 0) return null;
+  return createGame(p.board, p.turn);
+}
+
 /* =========================
    App
 ========================= */
 
 export default function App() {
-  const [screen, setScreen] = useState<Screen>("home");
+  const [urlStart] = useState(readUrlStart);
+  const [screen, setScreen] = useState<Screen>(urlStart ? "game" : "home");
   const [mode, setMode] = useState<GameMode>("local");
   const [aiSide, setAiSide] = useState<Player | null>(null);
-
-  const [board, setBoard] = useState<CellValue[][]>(createEmptyBoard());
-  const [turn, setTurn] = useState<Player>("white");
-  const [phase, setPhase] = useState<Phase>("place");
-  const [pendingMove, setPendingMove] = useState<Pos | null>(null);
-  const [winner, setWinner] = useState<Player | "draw" | null>(null);
+  const [aiLevel, setAiLevel] = useState<AiLevel>("normal");
+  // 友達・AIとの新しい対局のルール（通信対戦・局面編集は通常ルールのみ）
+  const [variant, setVariant] = useState<Variant>(STANDARD_VARIANT);
+  // AI同士の対局（観戦）：白・黒それぞれの強さ、一時停止、演出の速さ
+  const [watchLevels, setWatchLevels] = useState<Record<Player, AiLevel>>({ white: "normal", black: "hard" });
+  const [watchPaused, setWatchPaused] = useState(false);
+  const [watchSpeed, setWatchSpeed] = useState(1);
+  // 再生・1手進めるで AI の手番を始め直すために増やす
+  const [watchTick, setWatchTick] = useState(0);
+  // 読み込んだ AI どうしの棋譜の対局者（書き出すときもそのまま残す）
+  const [recordPlayers, setRecordPlayers] = useState<Record<Player, string> | null>(null);
+
+  // オンライン対戦中の部屋（サーバーが正。投了・合意の決着もここに来る）
+  const [online, setOnline] = useState<OnlineSession | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<ConnectionStatus>("closed");
+  const [onlineBusy, setOnlineBusy] = useState(false);
+  const [onlineError, setOnlineError] = useState("");
+  // P2P 対戦（サーバーなし）
+  const [peer, setPeer] = useState<PeerSession | null>(null);
+  const [peerError, setPeerError] = useState("");
+
+  // 通信対戦の相手と指す（待ったなし・リセットなし）
+  const networked = mode === "online" || mode === "p2p";
+  const mySide = mode === "online" ? (online?.side ?? null) : mode === "p2p" ? (peer?.side ?? null) : null;
+  // 投了・合意など、盤面からは分からない決着
+  const networkResult =
+    mode === "online" ? (online?.snapshot.result ?? null) : mode === "p2p" ? (peer?.result ?? null) : null;
+
+  // 持ち時間（友達・AIとの対戦のみ）。null なら時計なし
+  const [timeControl, setTimeControl] = useState<TimeControlId>("none");
+  const [clock, setClock] = useState<Clock | null>(null);
+  const [now, setNow] = useState(Date.now);
+  const flagged = clock?.flagged ?? null;
+
+  // 友達・AIとの対局で投了・合意により終わった結果と、出ている引き分け提案
+  const [ended, setEnded] = useState<GameResult | null>(null);
+  const [drawOfferBy, setDrawOfferBy] = useState<Player | null>(null);
+
+  const [game, setGame] = useState<GameState>(() => urlStart ?? createGame());
+  const { turn, phase, pending: pendingMove } = game;
+  // 決着：盤面（5つ並び・満杯）→ 通信相手との決着 → 時間切れ → 投了・合意 の順に見る
+  const result = useMemo<GameResult | null>(
+    () =>
+      (game.winner ? boardResult(game.board, game.variant.winLength) : null) ??
+      networkResult ??
+      (flagged ? { winner: opponent(flagged), reason: "timeout" } : null) ??
+      ended,
+    [game, networkResult, flagged, ended]
+  );
+  const winner = result?.winner ?? null;
+  const [history, setHistory] = useState<History>(() => createHistory(game));
+  // 棋譜で過去の局面を表示中なら、その手数（読み取り専用）
+  const [viewCursor, setViewCursor] = useState<number | null>(null);
+  const viewState = useMemo(
+    () => (viewCursor === null ? null : stateAt(history, viewCursor)),
+    [history, viewCursor]
+  );
 
   const [selectedQuadrant, setSelectedQuadrant] = useState<number>(0);
+  const [rotating, setRotating] = useState<RotationAnimation | null>(null);
   const [lastMoveText, setLastMoveText] = useState<string>("");
 
   // デバッグ（必要なら表示）
   const [rotateBlockReason, setRotateBlockReason] = useState<string>("");
 
-  const isAiTurn = mode === "ai" && aiSide && turn === aiSide && !winner;
+  // リセットのたびに増やす。手番が変わらないリセットでもAIの手番を始め直すため
+  const [gameId, setGameId] = useState(0);
+
+  // ヒント（出した対局・手数の局面でだけ表示する）と、相手の勝ち筋の表示
+  const [hint, setHint] = useState<{ move: Move; gameId: number; ply: number } | null>(null);
+  const [hintThinking, setHintThinking] = useState(false);
+  const [showThreats, setShowThreats] = useState(false);
+
+  const isAiTurn = (mode === "watch" || (mode === "ai" && aiSide !== null && turn === aiSide)) && !winner;
+  const isRemoteTurn = networked && mySide !== null && turn !== mySide && !winner;
+  // 自分では指せない手番（AI・オンラインの相手）
+  const isOpponentTurn = isAiTurn || isRemoteTurn;
+
+  const aiClientRef = useRef<AiClient | null>(null);
+  const aiTimersRef = useRef<number[]>([]);
+  // AI が1手を指している途中（探索〜回転の演出）か
+  const aiBusyRef = useRef(false);
+  // 観戦の一時停止・1手進める・速さ。途中の手を止めないよう、AI の effect からは ref で読む
+  const watchRef = useRef({ paused: false, steps: 0, speed: 1 });
+  const rotateTimerRef = useRef<number | null>(null);
+  const onlineRef = useRef<OnlineClient | null>(null);
+  const peerRef = useRef<PeerLink | null>(null);
+
+  function getAiClient(): AiClient {
+    if (!aiClientRef.current) aiClientRef.current = createAiClient();
+    return aiClientRef.current;
+  }
+
+  // 探索中の Worker と演出タイマーを止める（リセット・ホーム・手番変化時）
+  function cancelAi() {
+    aiClientRef.current?.cancel();
+    setHintThinking(false);
+    aiTimersRef.current.forEach((id) => window.clearTimeout(id));
+    aiTimersRef.current = [];
+  }
 
-  function resetGame() {
-    setBoard(createEmptyBoard());
-    setTurn("white");
-    setPhase("place");
-    setPendingMove(null);
-    setWinner(null);
+  // 象限を回して見せてから commit で盤面を確定する。タイマーを張ったらその id を返す
+  function playRotation(quadrant: number, dir: Dir, commit: () => void, speed = 1): number | null {
+    const ms = Math.round(rotationDuration() / speed);
+    if (ms === 0) {
+      commit();
+      return null;
+    }
+    setRotating({ quadrant, dir, ms });
+    return window.setTimeout(() => {
+      setRotating(null);
+      commit();
+    }, ms);
+  }
+
+  function stopRotation() {
+    if (rotateTimerRef.current !== null) window.clearTimeout(rotateTimerRef.current);
+    rotateTimerRef.current = null;
+    setRotating(null);
+  }
+
+  function goHome() {
+    cancelAi();
+    setClock((c) => c && pauseClock(c, Date.now()));
+    closeOnline();
+    closePeer();
+    setScreen("home");
+  }
+
+  function resetGame(start: GameState = createGame()) {
+    cancelAi();
+    stopRotation();
+    setClock(null);
+    setRecordPlayers(null);
+    setEnded(null);
+    setDrawOfferBy(null);
+    setGameId((n) => n + 1);
+    setGame(start);
+    setHistory(createHistory(start));
+    setViewCursor(null);
     setSelectedQuadrant(0);
     setLastMoveText("");
     setRotateBlockReason("");
   }
 
-  function startLocal() {
+  function loadRecord(rec: GameRecord) {
     resetGame();
+    const h = historyFromRecord(rec);
+    setHistory(h);
+    setGame(stateAt(h));
+    if (rec.result && isAdjudicated(rec.result)) setEnded(rec.result);
+    setMode(rec.mode);
+    setAiSide(rec.aiSide);
+    // AI どうしの棋譜は観戦として一時停止で開く（続きは再生・1手進めるで AI が指す）
+    if (rec.mode === "watch") {
+      setRecordPlayers(rec.players);
+      watchRef.current = { ...watchRef.current, paused: true, steps: 0 };
+      setWatchPaused(true);
+    }
+    if (rec.aiLevel) setAiLevel(rec.aiLevel);
+    setScreen("game");
+  }
+
+  function resumeGame(saved: SavedGame) {
+    resetGame();
+    setHistory(saved.history);
+    setGame(saved.game);
+    setMode(saved.mode);
+    setAiSide(saved.aiSide);
+    setAiLevel(saved.aiLevel);
+    // 時計は保存したときの残りから、手番の側で動かし直す
+    const t = Date.now();
+    setNow(t);
+    setClock(saved.clock && startClock(saved.clock, saved.game.turn, t));
+    setScreen("game");
+  }
+
+  // リセットは対局の開始局面（局面編集から始めたならその局面）に戻す
+  function restartGame() {
+    resetGame(history.start);
+    if (clock) armClock(history.start.turn);
+  }
+
+  // 選んだ持ち時間で時計を用意し、turn の側から動かす
+  function armClock(turn: Player) {
+    const control = TIME_CONTROLS[timeControl].control;
+    const t = Date.now();
+    setNow(t);
+    setClock(control && startClock(createClock(control), turn, t));
+  }
+
+  function startFromPosition(board: Grid, turn: Player, humanSide: Player | null) {
+    resetGame(createGame(board, turn));
+    armClock(turn);
+    setMode(humanSide ? "ai" : "local");
+    setAiSide(humanSide ? opponent(humanSide) : null);
+    setScreen("game");
+  }
+
+  function startLocal() {
+    resetGame(createVariantGame(variant));
+    armClock("white");
     setMode("local");
     setAiSide(null);
     setScreen("game");
   }
 
   function startAI(humanSide: Player) {
-    resetGame();
+    resetGame(createVariantGame(variant));
+    armClock("white");
     setMode("ai");
-    setAiSide(humanSide === "white" ? "black" : "white");
+    setAiSide(opponent(humanSide));
+    setScreen("game");
+  }
+
+  // AI同士の対局を観戦する（時計なし）
+  function startWatch() {
+    resetGame(createVariantGame(variant));
+    setMode("watch");
+    setAiSide(null);
+    watchRef.current = { ...watchRef.current, paused: false, steps: 0 };
+    setWatchPaused(false);
     setScreen("game");
   }
 
+  function toggleWatchPause() {
+    const paused = !watchRef.current.paused;
+    watchRef.current = { ...watchRef.current, paused, steps: 0 };
+    setWatchPaused(paused);
+    // 指している途中なら、その手が終われば次の手番から続く
+    if (!paused && !aiBusyRef.current) setWatchTick((n) => n + 1);
+  }
+
+  // 一時停止中に1手だけ指させる（指している途中なら何もしない）
+  function stepWatch() {
+    if (!watchRef.current.paused || aiBusyRef.current || winner) return;
+    watchRef.current = { ...watchRef.current, steps: 1 };
+    setWatchTick((n) => n + 1);
+  }
+
+  function changeWatchSpeed(speed: number) {
+    watchRef.current = { ...watchRef.current, speed };
+    setWatchSpeed(speed);
+  }
+
   function onTapCell(pos: Pos) {
-    if (winner) return;
-    if (isAiTurn) return;
-    if (phase !== "place") return;
-    if (board[pos.y][pos.x] !== null) return;
+    if (viewState || winner) return;
+    if (isOpponentTurn) return;
+    if (!canPlace(game, pos)) return;
 
-    setPendingMove(pos);
+    setGame(place(game, pos));
   }
 
   function proceedToRotatePhase() {
-    if (winner) return;
-    if (isAiTurn) return;
-    if (phase !== "place") return;
-    if (!pendingMove) return;
+    if (viewState) return;
+    if (isOpponentTurn) return;
+    if (winner || phase !== "place" || !pendingMove) return;
 
-    setPhase("rotate");
+    setGame(confirmPlacement(game));
     setRotateBlockReason("");
   }
 
   function cancelPending() {
-    if (winner) return;
-    if (isAiTurn) return;
+    if (viewState || rotating) return;
+    if (isOpponentTurn) return;
+    if (winner || (phase === "place" && !pendingMove)) return;
 
-    if (phase === "rotate") {
-      setPhase("place");
-      return;
+    setGame(undo(game));
+  }
+
+  function confirmRotation(dir: Dir, quadrant: number = selectedQuadrant) {
+    if (viewState || rotating || winner) return;
+    if (isOpponentTurn) return setRotateBlockReason("blocked: opponent's turn");
+    if (!pendingMove) return setRotateBlockReason("blocked: no pending placement");
+
+    let next: GameState;
+    try {
+      next = rotate(game, quadrant, dir);
+    } catch (e) {
+      if (!(e instanceof IllegalMoveError)) throw e;
+      return setRotateBlockReason(`blocked: ${e.message}`);
     }
-    setPendingMove(null);
+
+    const record = { player: turn, pos: pendingMove, quadrant, dir };
+    const ply = history.cursor;
+    // 考え中のヒントはもう要らない（AI の探索と Worker を取り合わないように止める）
+    if (hintThinking) cancelAi();
+    // 指した時点で時計を止める（回転アニメーションの間は数えない）
+    setClock((c) => c && completeMove(c, Date.now()));
+    rotateTimerRef.current = playRotation(quadrant, dir, () => {
+      rotateTimerRef.current = null;
+      setGame(next);
+      // 手を指したら出ていた引き分け提案は取り下げ扱い
+      setDrawOfferBy(null);
+      if (!next.winner) setClock((c) => c && startClock(c, next.turn, Date.now()));
+      setHistory((h) => pushMove(h, record));
+      // サーバーでも検証され、結果は sync で返ってくる
+      const move = { pos: record.pos, quadrant: record.quadrant, dir };
+      if (mode === "online") onlineRef.current?.send({ type: "move", move, ply });
+      if (mode === "p2p") peerRef.current?.send({ type: "move", move, ply });
+      setRotateBlockReason(`OK: rotate ${dir}`);
+    });
   }
 
-  // ✅ スワイプ回転（pendingMove が null でも弾かない版）
-  // ※ ただし、回転フェーズに入るための pendingMove は proceedToRotatePhase が担保
-  function confirmRotation(dir: "cw" | "ccw") {
-    if (winner) return setRotateBlockReason("blocked: winner exists");
-    if (isAiTurn) return setRotateBlockReason("blocked: AI turn");
-    if (phase !== "rotate") return setRotateBlockReason(`blocked: phase=${phase}`);
+  // 回転を省略できる変種：盤の変わらない象限を回した手として確定する
+  const skipQuadrant = skippableQuadrant(game);
 
-    // ここから実行
-    setRotateBlockReason(`OK: rotate ${dir}`);
+  function skipRotation() {
+    if (skipQuadrant !== null) confirmRotation("cw", skipQuadrant);
+  }
 
-    // まず「置き」を board に反映してから回転
-    // pendingMove がある前提（rotateに入れているため）
-    if (!pendingMove) return setRotateBlockReason("blocked: pendingMove is null (unexpected)");
+  // ランダム回転の変種：回す象限と向きはここで引く（盤のドラッグもこちらになる）
+  function rotateRandomly() {
+    const { quadrant, dir } = drawRotation(game.variant);
+    confirmRotation(dir, quadrant);
+  }
 
-    const placed = cloneBoard(board);
-    placed[pendingMove.y][pendingMove.x] = turn;
-    const rotated = rotateQuadrant(placed, selectedQuadrant, dir);
+  // AI戦では「待った」で AI の応手ごと自分の手まで戻す
+  const humanSide = mode === "ai" && aiSide ? opponent(aiSide) : null;
+  // 通信対戦では待ったなし
+  // 投了・合意で終わった対局も戻せない
+  // 観戦中は AI が指し続けるので戻さない（過去の局面は棋譜から見られる）
+  const undoEnabled = !networked && mode !== "watch" && !ended && !rotating && canUndo(history, humanSide);
+  const redoEnabled = !networked && mode !== "watch" && !ended && !rotating && !isAiTurn && canRedo(history, humanSide);
+
+  function jumpHistory(cursor: number) {
+    cancelAi();
+    stopRotation();
+    const h = moveTo(history, cursor);
+    const s = stateAt(h);
+    setHistory(h);
+    setGame(s);
+    setClock((c) => c && (s.winner ? pauseClock(c, Date.now()) : startClock(c, s.turn, Date.now())));
+    setViewCursor(null);
+    setLastMoveText("");
+    setRotateBlockReason("");
+  }
 
-    const w = checkWinner(rotated);
-    setBoard(rotated);
-    setPendingMove(null);
-    setPhase("place");
-    setWinner(w);
+  /* ============ Online ============ */
 
-    if (!w) setTurn(turn === "white" ? "black" : "white");
+  function closeOnline() {
+    onlineRef.current?.close();
+    onlineRef.current = null;
+    setOnline(null);
+    setOnlineBusy(false);
   }
 
-  const statusText = useMemo(() => {
-    if (winner) {
-      return winner === "draw"
-        ? "引き分け！リセットで再戦"
-        : `${winner === "white" ? "白" : "黒"}の勝ち！リセットで再戦`;
+  // サーバーの状態で盤面と棋譜を作り直す。手数が変わっていなければ自分の仮置きは残す
+  function applySnapshot(snapshot: RoomSnapshot, keepPending: boolean) {
+    const h: History = { start: createGame(), moves: snapshot.moves, cursor: snapshot.moves.length };
+    const next = stateAt(h);
+    setHistory(h);
+    setGame((g) => (keepPending && g.moveNumber === next.moveNumber && !g.winner ? g : next));
+    if (!keepPending) setViewCursor(null);
+  }
+
+  function connectOnline(url: string, first: ClientMessage) {
+    closeOnline();
+    setOnlineError("");
+    setOnlineBusy(true);
+    let seated = false;
+
+    const client = createOnlineClient(url, {
+      onStatus(status) {
+        setOnlineStatus(status);
+        // 部屋に入る前に繋がらなければ諦める（入った後は自動で繋ぎ直す）
+        if (!seated && status === "reconnecting") {
+          setOnlineError("サーバーに接続できませんでした");
+          closeOnline();
+        }
+      },
+      onMessage(msg: ServerMessage) {
+        switch (msg.type) {
+          case "joined":
+            client.setSeat(msg.snapshot.room, msg.token);
+            if (!seated) {
+              seated = true;
+              resetGame();
+              setMode("online");
+              setAiSide(null);
+              setScreen("game");
+            }
+            setOnline({ side: msg.side, snapshot: msg.snapshot });
+            setOnlineBusy(false);
+            applySnapshot(msg.snapshot, false);
+            break;
+          case "sync":
+            setOnline((o) => o && { ...o, snapshot: msg.snapshot });
+            applySnapshot(msg.snapshot, true);
+            break;
+          case "error":
+            setOnlineError(ONLINE_ERROR_TEXT[msg.code]);
+            if (!seated) closeOnline();
+            break;
+        }
+      },
+    });
+    onlineRef.current = client;
+    client.send(first);
+  }
+
+  function resignOnline() {
+    if (!window.confirm("投了しますか？")) return;
+    onlineRef.current?.send({ type: "resign" });
+  }
+
+  /* ============ P2P ============ */
+
+  // 相手の手はサーバーを通らないので、ここで必ずルールに通してから反映する
+  const historyRef = useRef(history);
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  function closePeer() {
+    peerRef.current?.close();
+    peerRef.current = null;
+    setPeer(null);
+  }
+
+  function adoptHistory(h: History) {
+    historyRef.current = h;
+    setHistory(h);
+    setGame(stateAt(h));
+  }
+
+  function openPeer(role: "host" | "guest", hostSide: Player | null): PeerLink {
+    closePeer();
+    setPeerError("");
+    // guest の手番は hello が届いてから決まる
+    let side: Player | null = role === "host" ? hostSide : null;
+
+    function startPeerGame(s: Player) {
+      resetGame();
+      historyRef.current = createHistory(createGame());
+      setMode("p2p");
+      setAiSide(null);
+      setPeer((p) => p && { ...p, side: s });
+      setScreen("game");
+    }
+
+    // 手数がずれたら host の棋譜に合わせる
+    function resync() {
+      if (role === "host") link.send({ type: "resync", moves: historyRef.current.moves.slice(0, historyRef.current.cursor) });
+      else link.send({ type: "resyncRequest" });
     }
+
+    function onMessage(msg: PeerMessage) {
+      switch (msg.type) {
+        case "hello":
+          if (role !== "guest" || side) return;
+          side = opponent(msg.hostSide);
+          startPeerGame(side);
+          return;
+        case "move": {
+          if (!side) return;
+          const h = historyRef.current;
+          if (msg.ply !== h.cursor) return resync();
+          try {
+            adoptHistory(applyRemoteMove(h, opponent(side), msg.move));
+          } catch (e) {
+            if (!(e instanceof IllegalMoveError)) throw e;
+            setPeerError(`相手から打てない手が届きました（${e.message}）`);
+            resync();
+          }
+          return;
+        }
+        case "resign": {
+          if (!side) return;
+          const winnerSide = side;
+          setPeer((p) => (p && !p.result ? { ...p, result: { winner: winnerSide, reason: "resign" } } : p));
+          return;
+        }
+        case "resyncRequest":
+          if (role === "host") resync();
+          return;
+        case "resync":
+          if (role !== "guest") return;
+          try {
+            adoptHistory(historyFromMoves(createGame(), msg.moves));
+            setPeerError("");
+          } catch (e) {
+            if (!(e instanceof IllegalMoveError)) throw e;
+            setPeerError(`相手の棋譜を検証できませんでした（${e.message}）`);
+          }
+          return;
+      }
+    }
+
+    const link = createPeerLink({
+      onMessage,
+      onStatus(status) {
+        setPeer((p) => p && { ...p, status });
+        if (status === "open" && role === "host" && hostSide) {
+          link.send({ type: "hello", hostSide });
+          startPeerGame(hostSide);
+        }
+      },
+    });
+    peerRef.current = link;
+    setPeer({ role, side, status: "idle", result: null });
+    return link;
+  }
+
+  function resignPeer() {
+    if (!peer?.side || !window.confirm("投了しますか？")) return;
+    peerRef.current?.send({ type: "resign" });
+    setPeer({ ...peer, result: { winner: opponent(peer.side), reason: "resign" } });
+  }
+
+  /* ============ ヒント ============ */
+
+  // 通信対戦では出さない。自分の手番で盤面を操作できるときだけ
+  const canAssist = !networked && !winner && !isOpponentTurn && !viewState && !rotating;
+  const hintMove = canAssist && hint && hint.gameId === gameId && hint.ply === history.cursor ? hint.move : null;
+  const threats = useMemo(
+    () => (showThreats && canAssist ? winningPlacements(game.board, opponent(game.turn), game.variant.winLength) : []),
+    [showThreats, canAssist, game]
+  );
+
+  function requestHint() {
+    if (!canAssist || hintThinking) return;
+    const target = { gameId, ply: history.cursor };
+    setHintThinking(true);
+    getAiClient()
+      .search(game.board, turn, HINT_LEVEL, game.variant)
+      .then(({ move }) => setHint({ move, ...target }))
+      .catch((e: unknown) => setLastMoveText(`ヒント: エラー（${e instanceof Error ? e.message : String(e)}）`))
+      .finally(() => setHintThinking(false));
+  }
+
+  /* ============ 投了・引き分け（友達・AIとの対局） ============ */
+
+  function endGame(r: GameResult) {
+    cancelAi();
+    stopRotation();
+    setClock((c) => c && pauseClock(c, Date.now()));
+    // 仮置き中の石は取り消す
+    setGame(stateAt(history));
+    setViewCursor(null);
+    setDrawOfferBy(null);
+    setEnded(r);
+  }
+
+  // 友達との対局では手番の側が、AI戦では人間が投了する
+  function resignGame() {
+    const loser = humanSide ?? turn;
+    const ask = mode === "ai" ? "投了しますか？" : `${loser === "white" ? "白" : "黒"}が投了しますか？`;
+    if (!window.confirm(ask)) return;
+    endGame({ winner: opponent(loser), reason: "resign" });
+  }
+
+  // AI はその場で形勢を見て答える。友達との対局では相手の返事を待つ
+  function offerDraw() {
+    if (mode === "ai" && aiSide) {
+      if (acceptsDraw(game.board, aiSide, game.variant.winLength)) endGame({ winner: "draw", reason: "agreement" });
+      else setLastMoveText("AI: 引き分けの提案を断りました");
+      return;
+    }
+    setDrawOfferBy(turn);
+  }
+
+  function replyDraw(accept: boolean) {
+    if (accept) endGame({ winner: "draw", reason: "agreement" });
+    else setDrawOfferBy(null);
+  }
+
+  function undoMove() {
+    if (!undoEnabled) return;
+    jumpHistory(undoTarget(history, humanSide));
+  }
+
+  function redoMove() {
+    if (!redoEnabled) return;
+    jumpHistory(redoTarget(history, humanSide));
+  }
+
+  // 共有リンクから開いたら、リロードで同じ局面に戻らないよう URL から消しておく
+  useEffect(() => {
+    if (!urlStart) return;
+    const url = new URL(window.location.href);
+    url.searchParams.delete(POSITION_PARAM);
+    window.history.replaceState(null, "", url);
+  }, [urlStart]);
+
+  // ホームに戻るたびに保存済みの対局を確認する
+  const resumable = useMemo(() => (screen === "home" ? loadSavedGame() : null), [screen]);
+
+  // 対局中は毎手自動保存。終局・未着手なら消す
+  useEffect(() => {
+    // 観戦は保存しない（保存済みの対局もそのまま残す）
+    if (screen !== "game" || networked || mode === "watch") return;
+    if (winner || (history.cursor === 0 && !game.pending)) {
+      clearSavedGame();
+      return;
+    }
+    saveGame({ mode, aiSide, aiLevel, history, game, clock });
+  }, [screen, networked, winner, mode, aiSide, aiLevel, history, game, clock]);
+
+  const currentRecord = useMemo<GameRecord>(
+    () => ({
+      // 通信対戦の棋譜は友達との対局として残す。観戦は AI どうしの対局（対局者に AI の強さを書く）
+      mode: mode === "online" || mode === "p2p" ? "local" : mode,
+      aiSide: mode === "ai" ? aiSide : null,
+      aiLevel: mode === "ai" ? aiLevel : null,
+      players:
+        mode === "watch"
+          ? (recordPlayers ?? { white: aiName(watchLevels.white), black: aiName(watchLevels.black) })
+          : null,
+      date: todayString(),
+      result,
+      variant: history.start.variant,
+      start: isInitialPosition(history.start.board, history.start.turn)
+        ? null
+        : { board: history.start.board, turn: history.start.turn },
+      moves: history.moves.slice(0, history.cursor).map(({ pos, quadrant, dir }) => ({ pos, quadrant, dir })),
+    }),
+    [mode, aiSide, aiLevel, watchLevels, recordPlayers, history, result]
+  );
+
+  const statusText = useMemo(() => {
+    if (result) return networked ? resultText(result) : `${resultText(result)}リセットで再戦`;
     const who = turn === "white" ? "白" : "黒";
+    if (mode === "watch") return watchPaused ? `一時停止中（${who}の番）` : `${who}の${aiName(watchLevels[turn])}の番…`;
     if (mode === "ai" && aiSide && turn === aiSide) return `AI（${who}）の番…`;
+    if (networked && mySide && turn !== mySide) return `相手（${who}）の番…`;
     if (phase === "place") {
       return pendingMove ? `${who}：次へを押して回転へ` : `${who}の番：空マスをタップして仮置き`;
     }
-    return `${who}の番：象限タップ→左右スワイプで回転して確定`;
-  }, [winner, turn, phase, mode, aiSide, pendingMove]);
-  
-    const boardRef = useRef(board);
-    useEffect(() => {
-      boardRef.current = board;
-    }, [board]);
-
-    const aiBusyRef = useRef(false);
-    const aiTimersRef = useRef<number[]>([]);
+    if (game.variant.randomRotation) return `${who}の番：回すボタンでランダムに回転して確定`;
+    return `${who}の番：象限タップ→ドラッグかボタンで回転して確定`;
+  }, [result, turn, phase, mode, aiSide, watchLevels, watchPaused, networked, mySide, pendingMove, game.variant]);
+
+  // スクリーンリーダー向け：直前の一手（AIの手を含む）と勝敗を読み上げる
+  const announcement = useMemo(() => {
+    const parts: string[] = [];
+    if (history.cursor > 0) {
+      const last = history.moves[history.cursor - 1];
+      const who = `${mode === "ai" && last.player === aiSide ? "AI " : ""}${last.player === "white" ? "白" : "黒"}`;
+      parts.push(`${history.cursor}手目 ${who} ${formatMove(last)}`);
+    }
+    if (result) parts.push(resultText(result));
+    return parts.join("。");
+  }, [history, mode, aiSide, result]);
 
+  const gameRef = useRef(game);
+  useEffect(() => {
+    gameRef.current = game;
+  }, [game]);
 
-  // AIの手番：自動で1手（置く＋回す）打つ
-  // AIの手番：置き→象限ハイライト→回転 を段階表示
+  // AIの手番：Worker に探索させ、答えが来たら 置き→象限ハイライト→回転 を段階表示
+  // 観戦では両方の手番を AI が指す（一時停止中は「1手進める」の分だけ）
   useEffect(() => {
-    // まず既存タイマーは掃除（安全）
-    const clearAll = () => {
-      aiTimersRef.current.forEach((id) => window.clearTimeout(id));
-      aiTimersRef.current = [];
+    if (mode !== "ai" && mode !== "watch") return;
+    if (mode === "ai" && (!aiSide || turn !== aiSide)) return;
+    if (winner) return;
+    if (mode === "watch" && watchRef.current.paused) {
+      if (watchRef.current.steps === 0) return;
+      watchRef.current = { ...watchRef.current, steps: watchRef.current.steps - 1 };
+    }
+
+    const side = turn;
+    const level = mode === "watch" ? watchLevels[side] : aiLevel;
+    const name = mode === "watch" ? `${side === "white" ? "白" : "黒"}の${aiName(level)}` : "AI";
+    // 観戦では演出の速さを変えられる（この手の間は始めたときの速さのまま）
+    const speed = mode === "watch" ? watchRef.current.speed : 1;
+
+    // この手番開始時点の盤面を固定（途中で state が変わってもブレない）
+    const client = getAiClient();
+    let cancelled = false;
+    aiBusyRef.current = true;
+
+    client
+      .search(gameRef.current.board, side, level, gameRef.current.variant, (p) => {
+        if (!cancelled) setLastMoveText(`${name}: 考え中…（深さ${p.depth}）`);
+      })
+      .then((r) => {
+        if (cancelled) return;
+        const m = r.move;
+        // 定跡の手・読み切りならログに添える
+        const note = describeSearch(r);
+        // 考え終わったら AI の時計を止める（ここからの演出の間は数えない）
+        setClock((c) => c && completeMove(c, Date.now()));
+
+        // ① 置く（仮置き表示）
+        const t1 = window.setTimeout(() => {
+          setGame((g) => place(g, m.pos));
+          setLastMoveText(`${name}: ${formatPos(m.pos)} に置く…`);
+        }, 250 / speed);
+
+        // ② 象限ハイライト（回す場所を見せる）
+        const t2 = window.setTimeout(() => {
+          setSelectedQuadrant(m.quadrant);
+          setGame((g) => confirmPlacement(g));
+          setLastMoveText(`${name}: ${formatMove(m)}…`);
+        }, 900 / speed);
+
+        // ③ 回転アニメーションのあと確定（盤面更新して手番交代）
+        const t3 = window.setTimeout(() => {
+          const t4 = playRotation(
+            m.quadrant,
+            m.dir,
+            () => {
+              const after = rotate(gameRef.current, m.quadrant, m.dir);
+              setGame((g) => rotate(g, m.quadrant, m.dir));
+              if (!after.winner) setClock((c) => c && startClock(c, after.turn, Date.now()));
+              setHistory((h) => pushMove(h, { player: side, ...m }));
+
+              setLastMoveText(`${name}: ${formatMove(m)}${note ? `（${note}）` : ""}`);
+
+              // この手番のAI演出は終了
+              aiTimersRef.current = [];
+              aiBusyRef.current = false;
+            },
+            speed
+          );
+          if (t4 !== null) aiTimersRef.current.push(t4);
+        }, 1400 / speed);
+
+        aiTimersRef.current = [t1, t2, t3];
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        aiBusyRef.current = false;
+        setLastMoveText(`${name}: エラー（${e instanceof Error ? e.message : String(e)}）`);
+      });
+
+    // mode/turn/winner が変わったら探索とタイマーを止める
+    return () => {
+      cancelled = true;
       aiBusyRef.current = false;
+      cancelAi();
     };
+  }, [mode, aiSide, aiLevel, watchLevels, watchTick, turn, winner, gameId]);
 
-    if (mode !== "ai") return clearAll;
-    if (!aiSide) return clearAll;
-    if (winner) return clearAll;
-    if (turn !== aiSide) return clearAll;
+  // 時計が動いている間は表示を更新し、時間切れを判定する
+  const clockRunning = clock?.running ?? null;
+  useEffect(() => {
+    if (!clockRunning) return;
+    const id = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      setClock((c) => c && checkFlag(c, t));
+    }, 100);
+    return () => window.clearInterval(id);
+  }, [clockRunning]);
+
+  // アンマウント時に Worker を片付ける
+  useEffect(() => {
+    return () => {
+      aiClientRef.current?.dispose();
+      aiClientRef.current = null;
+      onlineRef.current?.close();
+      onlineRef.current = null;
+      peerRef.current?.close();
+      peerRef.current = null;
+    };
+  }, []);
 
-    // すでにこの手番のAI演出を走らせてるなら二重起動しない
-    if (aiBusyRef.current) return;
 
-    aiBusyRef.current = true;
+  /* ============ Screens ============ */
 
-    // この手番開始時点の盤面を固定（途中で state が変わってもブレない）
-    const boardAtStart = boardRef.current;
-    const m = chooseAiMove(boardAtStart, aiSide);
-
-    // ① 置く（仮置き表示）
-    const t1 = window.setTimeout(() => {
-      setPendingMove(m.pos);
-      setLastMoveText(`AI: (${m.pos.x + 1}, ${m.pos.y + 1}) に置く…`);
-    }, 250);
-
-    // ② 象限ハイライト（回す場所を見せる）
-    const t2 = window.setTimeout(() => {
-      setSelectedQuadrant(m.quadrant);
-      setPhase("rotate");
-      setLastMoveText(
-        `AI: ${["左上", "右上", "左下", "右下"][m.quadrant]} を${m.dir === "cw" ? "↻" : "↺"}…`
-      );
-    }, 900);
-
-    // ③ 確定（盤面更新して手番交代）
-    const t3 = window.setTimeout(() => {
-      const r = applyMove(boardAtStart, aiSide, m.pos, m.quadrant, m.dir);
-
-      setBoard(r.board);
-      setWinner(r.winner);
-      setPendingMove(null);
-      setPhase("place");
-
-      setLastMoveText(
-        `AI: (${m.pos.x + 1}, ${m.pos.y + 1}) → ${["左上", "右上", "左下", "右下"][m.quadrant]} ${
-          m.dir === "cw" ? "↻" : "↺"
-        }`
-      );
-
-      if (!r.winner) setTurn(aiSide === "white" ? "black" : "white");
-
-      // この手番のAI演出は終了
-      aiBusyRef.current = false;
-      aiTimersRef.current = [];
-    }, 1400);
+  if (screen === "home") {
+    return (
+      <ScreenCard
+        background={HOME_BACKGROUND}
+        below={
+          <div style={{ marginTop: 24, display: "flex", justifyContent: "center" }}>
+            <MiniBoardDecorationBelow />
+          </div>
+        }
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+          <div
+            style={{
+              width: 46,
+              height: 46,
+              borderRadius: 16,
+              background: "linear-gradient(135deg, rgba(99,102,241,1), rgba(16,185,129,1))",
+              boxShadow: "0 12px 28px rgba(0,0,0,0.18)",
+            }}
+          />
+          <div>
+            <div style={{ fontSize: 26, fontWeight: 950, letterSpacing: 0.2 }}>Pentago</div>
+            <div style={{ fontSize: 13, opacity: 0.7, marginTop: 4 }}>置いて、回して、5つ揃えろ。</div>
+          </div>
+        </div>
 
-    aiTimersRef.current = [t1, t2, t3];
+        <div style={{ marginTop: 14, fontSize: 14, lineHeight: 1.6, opacity: 0.9 }}>
+          同じ端末で友達とも、AIとも対戦できます。
+        </div>
 
-    // mode/turn/winner が変わったらタイマー停止
-    return clearAll;
-  }, [mode, aiSide, turn, winner]);
+        <div style={{ marginTop: 18, display: "grid", gap: 10 }}>
+          {resumable && (
+            <button
+              onClick={() => resumeGame(resumable)}
+              style={{
+                appearance: "none",
+                border: "1px solid rgba(99,102,241,0.5)",
+                borderRadius: 16,
+                minHeight: 52,
+                padding: "6px 14px",
+                fontSize: 16,
+                fontWeight: 950,
+                background: "linear-gradient(135deg, rgba(99,102,241,0.22), rgba(16,185,129,0.16))",
+                cursor: "pointer",
+                boxShadow: "0 10px 24px rgba(0,0,0,0.10)",
+              }}
+            >
+              続きから
+              <div style={{ fontSize: 12, fontWeight: 700, opacity: 0.7, marginTop: 2 }}>
+                {resumable.mode === "ai" ? `AI（${AI_LEVELS[resumable.aiLevel].label}）` : "友達"}と対戦・
+                {resumable.history.cursor}手目まで
+                {!isStandardVariant(resumable.history.start.variant) &&
+                  `（${variantLabel(resumable.history.start.variant)}）`}
+              </div>
+            </button>
+          )}
 
+          <TimeControlPicker value={timeControl} onChange={setTimeControl} />
+          <VariantPicker value={variant} onChange={setVariant} />
 
+          <button
+            onClick={startLocal}
+            style={{
+              appearance: "none",
+              border: "1px solid rgba(17,24,39,0.14)",
+              borderRadius: 16,
+              height: 52,
+              padding: "0 14px",
+              fontSize: 16,
+              fontWeight: 950,
+              background: "white",
+              cursor: "pointer",
+              boxShadow: "0 10px 24px rgba(0,0,0,0.10)",
+              transition: "transform 0.06s ease",
+            }}
+            onMouseDown={(e) => (e.currentTarget.style.transform = "scale(0.99)")}
+            onMouseUp={(e) => (e.currentTarget.style.transform = "scale(1)")}
+            onMouseLeave={(e) => (e.currentTarget.style.transform = "scale(1)")}
+          >
+            友達と対戦
+          </button>
 
+          <button
+            onClick={() => setScreen("aiSetup")}
+            style={{
+              appearance: "none",
+              border: "1px solid rgba(17,24,39,0.14)",
+              borderRadius: 16,
+              height: 52,
+              padding: "0 14px",
+              fontSize: 16,
+              fontWeight: 950,
+              background: "linear-gradient(135deg, rgba(99,102,241,0.14), rgba(16,185,129,0.10))",
+              cursor: "pointer",
+              boxShadow: "0 10px 24px rgba(0,0,0,0.08)",
+              transition: "transform 0.06s ease",
+            }}
+            onMouseDown={(e) => (e.currentTarget.style.transform = "scale(0.99)")}
+            onMouseUp={(e) => (e.currentTarget.style.transform = "scale(1)")}
+            onMouseLeave={(e) => (e.currentTarget.style.transform = "scale(1)")}
+          >
+            AIと対戦
+          </button>
 
-  /* ============ Screens ============ */
+          <button
+            onClick={() => {
+              setOnlineError("");
+              setScreen("online");
+            }}
+            style={menuButtonStyle}
+          >
+            オンライン対戦
+          </button>
 
-  if (screen === "home") {
+          <button
+            onClick={() => setScreen("p2p")}
+            style={menuButtonStyle}
+          >
+            P2P 対戦（サーバーなし）
+          </button>
+
+          <button
+            onClick={() => setScreen("watchSetup")}
+            style={menuButtonStyle}
+          >
+            AI同士の対戦を見る
+          </button>
+
+          <button
+            onClick={() => setScreen("multi")}
+            style={menuButtonStyle}
+          >
+            3〜4人で対戦
+          </button>
+
+          <button
+            onClick={() => setScreen("import")}
+            style={menuButtonStyle}
+          >
+            棋譜を読み込む
+          </button>
+
+          <button
+            onClick={() => setScreen("setup")}
+            style={menuButtonStyle}
+          >
+            局面を作る
+          </button>
+        </div>
+
+        <div
+          style={{
+            marginTop: 14,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            fontSize: 12,
+            opacity: 0.65,
+          }}
+        >
+          <div>v0.1</div>
+          <div>Made for mobile</div>
+        </div>
+      </ScreenCard>
+    );
+  }
+
+  if (screen === "setup") {
     return (
       <div
         style={{
           minHeight: "100vh",
-          paddingTop: 44,
-          paddingLeft: "max(16px, env(safe-area-inset-left))",
-          paddingRight: "max(16px, env(safe-area-inset-right))",
+          paddingTop: 24,
+          paddingLeft: "max(12px, env(safe-area-inset-left))",
+          paddingRight: "max(12px, env(safe-area-inset-right))",
           paddingBottom: 16,
-          background:
-            "radial-gradient(900px 500px at 20% 10%, rgba(99,102,241,0.25), transparent 60%)," +
-            "radial-gradient(800px 450px at 80% 20%, rgba(16,185,129,0.18), transparent 55%)," +
-            "linear-gradient(180deg, rgba(249,250,251,1), rgba(243,244,246,1))",
+          background: "linear-gradient(180deg, rgba(249,250,251,1), rgba(243,244,246,1))",
           boxSizing: "border-box",
-          display: "flex",
-          alignItems: "flex-start",
-          justifyContent: "center",
         }}
       >
-        <div style={{ width: "100%", maxWidth: "100%" }}>
-          <div
-            style={{
-              background: "rgba(255,255,255,0.88)",
-              border: "1px solid rgba(17,24,39,0.12)",
-              borderRadius: 24,
-              padding: 20,
-              boxShadow: "0 18px 50px rgba(0,0,0,0.10)",
-              backdropFilter: "blur(10px)",
-              overflow: "hidden",
-              boxSizing: "border-box",
-            }}
-          >
-            <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
-              <div
-                style={{
-                  width: 46,
-                  height: 46,
-                  borderRadius: 16,
-                  background: "linear-gradient(135deg, rgba(99,102,241,1), rgba(16,185,129,1))",
-                  boxShadow: "0 12px 28px rgba(0,0,0,0.18)",
-                }}
-              />
-              <div>
-                <div style={{ fontSize: 26, fontWeight: 950, letterSpacing: 0.2 }}>Pentago</div>
-                <div style={{ fontSize: 13, opacity: 0.7, marginTop: 4 }}>置いて、回して、5つ揃えろ。</div>
-              </div>
-            </div>
-
-            <div style={{ marginTop: 14, fontSize: 14, lineHeight: 1.6, opacity: 0.9 }}>
-              同じ端末で友達とも、AIとも対戦できます。
-            </div>
+        <div style={{ maxWidth: 980, margin: "0 auto" }}>
+          <PositionEditor
+            aiLevel={aiLevel}
+            onChangeLevel={setAiLevel}
+            onStart={startFromPosition}
+            onBack={() => setScreen("home")}
+          />
+        </div>
+      </div>
+    );
+  }
 
-            <div style={{ marginTop: 18, display: "grid", gap: 10 }}>
-              <button
-                onClick={startLocal}
-                style={{
-                  appearance: "none",
-                  border: "1px solid rgba(17,24,39,0.14)",
-                  borderRadius: 16,
-                  height: 52,
-                  padding: "0 14px",
-                  fontSize: 16,
-                  fontWeight: 950,
-                  background: "white",
-                  cursor: "pointer",
-                  boxShadow: "0 10px 24px rgba(0,0,0,0.10)",
-                  transition: "transform 0.06s ease",
-                }}
-                onMouseDown={(e) => (e.currentTarget.style.transform = "scale(0.99)")}
-                onMouseUp={(e) => (e.currentTarget.style.transform = "scale(1)")}
-                onMouseLeave={(e) => (e.currentTarget.style.transform = "scale(1)")}
-              >
-                友達と対戦
-              </button>
+  if (screen === "import") {
+    return (
+      <ScreenCard>
+        <ImportPanel onLoad={loadRecord} onBack={() => setScreen("home")} />
+      </ScreenCard>
+    );
+  }
 
-              <button
-                onClick={() => setScreen("aiSetup")}
-                style={{
-                  appearance: "none",
-                  border: "1px solid rgba(17,24,39,0.14)",
-                  borderRadius: 16,
-                  height: 52,
-                  padding: "0 14px",
-                  fontSize: 16,
-                  fontWeight: 950,
-                  background: "linear-gradient(135deg, rgba(99,102,241,0.14), rgba(16,185,129,0.10))",
-                  cursor: "pointer",
-                  boxShadow: "0 10px 24px rgba(0,0,0,0.08)",
-                  transition: "transform 0.06s ease",
-                }}
-                onMouseDown={(e) => (e.currentTarget.style.transform = "scale(0.99)")}
-                onMouseUp={(e) => (e.currentTarget.style.transform = "scale(1)")}
-                onMouseLeave={(e) => (e.currentTarget.style.transform = "scale(1)")}
-              >
-                AIと対戦
-              </button>
-            </div>
+  if (screen === "multi") {
+    return (
+      <ScreenCard>
+        <MultiplayerPanel onBack={() => setScreen("home")} />
+      </ScreenCard>
+    );
+  }
 
-            <div
-              style={{
-                marginTop: 14,
-                display: "flex",
-                justifyContent: "space-between",
-                alignItems: "center",
-                fontSize: 12,
-                opacity: 0.65,
-              }}
-            >
-              <div>v0.1</div>
-              <div>Made for mobile</div>
-            </div>
-          </div>
+  if (screen === "online") {
+    return (
+      <ScreenCard>
+        <OnlineLobby
+          defaultUrl={defaultServerUrl(DEFAULT_ONLINE_PORT)}
+          error={onlineError}
+          busy={onlineBusy}
+          onCreate={(url, side) => connectOnline(url, { type: "create", side })}
+          onJoin={(url, room) => connectOnline(url, { type: "join", room })}
+          onBack={goHome}
+        />
+      </ScreenCard>
+    );
+  }
 
-          <div style={{ marginTop: 24, display: "flex", justifyContent: "center" }}>
-            <MiniBoardDecorationBelow />
-          </div>
-        </div>
-      </div>
+  if (screen === "p2p") {
+    return (
+      <ScreenCard>
+        <PeerSetup
+          onHost={(side) => openPeer("host", side).createOffer()}
+          onJoin={(offer) => openPeer("guest", null).acceptOffer(offer)}
+          onAnswer={(answer) => peerRef.current?.acceptAnswer(answer) ?? Promise.resolve()}
+          onBack={goHome}
+        />
+      </ScreenCard>
     );
   }
 
-  if (screen === "aiSetup") {
+  if (screen === "analysis") {
     return (
       <div
         style={{
           minHeight: "100vh",
-          paddingTop: 44,
-          paddingLeft: "max(16px, env(safe-area-inset-left))",
-          paddingRight: "max(16px, env(safe-area-inset-right))",
-          paddingBottom: 16,
-          background:
-            "radial-gradient(900px 500px at 20% 10%, rgba(99,102,241,0.20), transparent 60%)," +
-            "linear-gradient(180deg, rgba(249,250,251,1), rgba(243,244,246,1))",
+          paddingTop: 18,
+          paddingLeft: "max(12px, env(safe-area-inset-left))",
+          paddingRight: "max(12px, env(safe-area-inset-right))",
+          paddingBottom: 24,
+          background: "linear-gradient(180deg, rgba(249,250,251,1), rgba(243,244,246,1))",
           boxSizing: "border-box",
-          display: "flex",
-          alignItems: "flex-start",
-          justifyContent: "center",
         }}
       >
-        <div style={{ width: "100%", maxWidth: "100%" }}>
-          <div
-            style={{
-              background: "rgba(255,255,255,0.88)",
-              border: "1px solid rgba(17,24,39,0.12)",
-              borderRadius: 24,
-              padding: 20,
-              boxShadow: "0 18px 50px rgba(0,0,0,0.10)",
-              backdropFilter: "blur(10px)",
-            }}
+        <div style={{ maxWidth: 980, margin: "0 auto" }}>
+          <AnalysisPanel history={history} onBack={() => setScreen("game")} />
+        </div>
+      </div>
+    );
+  }
+
+  if (screen === "aiSetup") {
+    return (
+      <ScreenCard>
+        <div style={{ fontSize: 18, fontWeight: 950, marginBottom: 12 }}>AIと対戦：強さと先手を選ぶ</div>
+
+        <div style={{ marginBottom: 14 }}>
+          <LevelPicker value={aiLevel} onChange={setAiLevel} />
+        </div>
+
+        <div style={{ marginBottom: 14 }}>
+          <TimeControlPicker value={timeControl} onChange={setTimeControl} />
+        </div>
+
+        <div style={{ marginBottom: 14 }}>
+          <VariantPicker value={variant} onChange={setVariant} />
+        </div>
+
+        <div style={{ display: "grid", gap: 10 }}>
+          <button
+            onClick={() => startAI("white")}
+            style={choiceButtonStyle}
+          >
+            先手（白）
+          </button>
+          <button
+            onClick={() => startAI("black")}
+            style={choiceButtonStyle}
+          >
+            後手（黒）
+          </button>
+          <button
+            onClick={() => setScreen("home")}
+            style={menuButtonStyle}
           >
-            <div style={{ fontSize: 18, fontWeight: 950, marginBottom: 12 }}>AIと対戦：先手を選ぶ</div>
+            戻る
+          </button>
+        </div>
+      </ScreenCard>
+    );
+  }
 
-            <div style={{ display: "grid", gap: 10 }}>
-              <button
-                onClick={() => startAI("white")}
-                style={{
-                  height: 52,
-                  borderRadius: 16,
-                  border: "1px solid rgba(17,24,39,0.14)",
-                  background: "white",
-                  fontWeight: 950,
-                  fontSize: 16,
-                  cursor: "pointer",
-                }}
-              >
-                先手（白）
-              </button>
-              <button
-                onClick={() => startAI("black")}
-                style={{
-                  height: 52,
-                  borderRadius: 16,
-                  border: "1px solid rgba(17,24,39,0.14)",
-                  background: "white",
-                  fontWeight: 950,
-                  fontSize: 16,
-                  cursor: "pointer",
-                }}
-              >
-                後手（黒）
-              </button>
-              <button
-                onClick={() => setScreen("home")}
-                style={{
-                  height: 44,
-                  borderRadius: 16,
-                  border: "1px solid rgba(17,24,39,0.12)",
-                  background: "rgba(255,255,255,0.8)",
-                  cursor: "pointer",
-                }}
-              >
-                戻る
-              </button>
+  if (screen === "watchSetup") {
+    return (
+      <ScreenCard>
+        <div style={{ fontSize: 18, fontWeight: 950, marginBottom: 12 }}>AI同士の対戦を見る：白と黒の強さを選ぶ</div>
+
+        {(["white", "black"] as const).map((p) => (
+          <div key={p} style={{ marginBottom: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.75, marginBottom: 6 }}>
+              {p === "white" ? "白（先手）" : "黒（後手）"}
             </div>
+            <LevelPicker value={watchLevels[p]} onChange={(lv) => setWatchLevels((w) => ({ ...w, [p]: lv }))} />
           </div>
+        ))}
+
+        <div style={{ marginBottom: 14 }}>
+          <VariantPicker value={variant} onChange={setVariant} />
         </div>
-      </div>
+
+        <div style={{ display: "grid", gap: 10 }}>
+          <button
+            onClick={startWatch}
+            style={choiceButtonStyle}
+          >
+            観戦を始める
+          </button>
+          <button
+            onClick={() => setScreen("home")}
+            style={menuButtonStyle}
+          >
+            戻る
+          </button>
+        </div>
+      </ScreenCard>
     );
   }
 
@@ -643,45 +1333,108 @@ export default function App() {
           <div style={{ fontSize: 20, fontWeight: 950 }}>Pentago</div>
           <div style={{ display: "flex", gap: 8 }}>
             <button
-              onClick={() => setScreen("home")}
+              onClick={undoMove}
+              disabled={!undoEnabled}
+              aria-label="元に戻す"
+              title="元に戻す"
               style={{
-                height: 40,
-                padding: "0 12px",
-                borderRadius: 12,
-                border: "1px solid rgba(17,24,39,0.14)",
-                background: "white",
-                fontWeight: 900,
-                cursor: "pointer",
+                ...buttonStyle,
+                width: 40,
+                padding: 0,
+                fontSize: 18,
+                opacity: undoEnabled ? 1 : 0.4,
+                cursor: undoEnabled ? "pointer" : "default",
               }}
             >
-              ホーム
+              ↶
             </button>
             <button
-              onClick={resetGame}
+              onClick={redoMove}
+              disabled={!redoEnabled}
+              aria-label="やり直す"
+              title="やり直す"
               style={{
-                height: 40,
-                padding: "0 12px",
-                borderRadius: 12,
-                border: "1px solid rgba(17,24,39,0.14)",
-                background: "white",
-                fontWeight: 900,
-                cursor: "pointer",
+                ...buttonStyle,
+                width: 40,
+                padding: 0,
+                fontSize: 18,
+                opacity: redoEnabled ? 1 : 0.4,
+                cursor: redoEnabled ? "pointer" : "default",
               }}
             >
-              リセット
+              ↷
+            </button>
+            <button
+              onClick={goHome}
+              style={buttonStyle}
+            >
+              ホーム
             </button>
+            {!networked && (
+              <button
+                onClick={restartGame}
+                style={buttonStyle}
+              >
+                リセット
+              </button>
+            )}
           </div>
         </div>
 
+        {clock && <ClockBar clock={clock} now={now} aiSide={mode === "ai" ? aiSide : null} />}
+
         {/* Status */}
         <div style={{ fontSize: 13, opacity: 0.82, marginTop: 10, marginBottom: 10 }}>{statusText}</div>
 
+        {/* オンライン：部屋・接続・投了／引き分け提案 */}
+        {mode === "online" && online && (
+          <OnlineBar
+            session={online}
+            status={onlineStatus}
+            onResign={resignOnline}
+            onOfferDraw={() => onlineRef.current?.send({ type: "drawOffer" })}
+            onReplyDraw={(accept) => onlineRef.current?.send({ type: "drawReply", accept })}
+          />
+        )}
+        {mode === "online" && onlineError && (
+          <div role="alert" style={{ fontSize: 12, color: "#b91c1c", fontWeight: 700, marginBottom: 8 }}>
+            {onlineError}
+          </div>
+        )}
+        {/* 友達・AIとの対局：ヒント／相手の勝ち筋 */}
+        {!networked && mode !== "watch" && !winner && (
+          <AssistBar
+            canHint={canAssist}
+            thinking={hintThinking}
+            onHint={requestHint}
+            showThreats={showThreats}
+            onToggleThreats={setShowThreats}
+          />
+        )}
+
+        {/* 友達・AIとの対局：投了／引き分け提案 */}
+        {!networked && mode !== "watch" && !winner && (
+          <GameActions
+            drawOfferBy={drawOfferBy}
+            disabled={!!rotating || !!viewState || history.cursor === 0}
+            onResign={resignGame}
+            onOfferDraw={offerDraw}
+            onReplyDraw={replyDraw}
+          />
+        )}
+        {mode === "p2p" && peer && <PeerBar session={peer} onResign={resignPeer} />}
+        {mode === "p2p" && peerError && (
+          <div role="alert" style={{ fontSize: 12, color: "#b91c1c", fontWeight: 700, marginBottom: 8 }}>
+            {peerError}
+          </div>
+        )}
+
         {rotateBlockReason && (
           <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 8 }}>{rotateBlockReason}</div>
         )}
 
         {/* AI log */}
-        {mode === "ai" && lastMoveText && (
+        {(mode === "ai" || mode === "watch") && lastMoveText && (
           <div style={{ fontSize: 12, opacity: 0.72, marginBottom: 10 }}>{lastMoveText}</div>
         )}
 
@@ -700,37 +1453,62 @@ export default function App() {
             }}
           >
             <div style={{ fontSize: 22, fontWeight: 950, marginBottom: 6 }}>
-              {winner === "draw" ? "引き分け！" : winner === "white" ? "白の勝ち！" : "黒の勝ち！"}
+              {result && resultText(result)}
             </div>
-            <div style={{ fontSize: 13, opacity: 0.75, marginBottom: 10 }}>リセットで再戦できます</div>
-            <button
-              onClick={resetGame}
-              style={{
-                height: 44,
-                padding: "0 16px",
-                borderRadius: 12,
-                border: "1px solid rgba(17,24,39,0.18)",
-                background: "white",
-                fontWeight: 950,
-                cursor: "pointer",
-              }}
-            >
-              リセット
-            </button>
+            <div style={{ fontSize: 13, opacity: 0.75, marginBottom: 10 }}>
+              {networked ? "ホームから新しい対局を始められます" : "リセットで再戦できます"}
+            </div>
+            <div style={{ display: "flex", justifyContent: "center", gap: 8 }}>
+              <button
+                onClick={networked ? goHome : restartGame}
+                style={resultButtonStyle}
+              >
+                {networked ? "ホーム" : "リセット"}
+              </button>
+              {history.cursor > 0 && (
+                <button
+                  onClick={() => setScreen("analysis")}
+                  style={resultButtonStyle}
+                >
+                  振り返る
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 過去の局面を表示中 */}
+        {viewState && (
+          <div style={{ fontSize: 12, fontWeight: 900, marginBottom: 8, color: "rgba(79,70,229,1)" }}>
+            {viewCursor}手目の局面を表示中（操作できません）
           </div>
         )}
 
         {/* Board */}
         <Board
-          board={board}
-          turn={turn}
-          phase={phase}
-          pendingMove={pendingMove}
+          state={viewState ?? game}
           onTapCell={onTapCell}
           selectedQuadrant={selectedQuadrant}
           onSelectQuadrant={setSelectedQuadrant}
-          onSwipeRotate={(dir) => confirmRotation(dir)}
+          onSwipeRotate={(dir) => (game.variant.randomRotation ? rotateRandomly() : confirmRotation(dir))}
+          onConfirmPlacement={proceedToRotatePhase}
+          onCancel={cancelPending}
+          rotating={rotating}
+          hint={hintMove}
+          threats={threats}
+        />
+        <div role="status" aria-live="polite" style={visuallyHidden}>
+          {announcement}
+        </div>
+
+        {/* 棋譜 */}
+        <MoveList
+          moves={history.moves.slice(0, history.cursor)}
+          viewing={viewCursor}
+          onSelect={setViewCursor}
         />
+        {/* 局面リンクは 6×6・通常ルールの局面だけ */}
+        <ExportActions record={currentRecord} position={isStandardVariant(game.variant) ? game : null} />
       </div>
 
       {/* Bottom Controls (sticky) */}
@@ -748,11 +1526,23 @@ export default function App() {
         }}
       >
         <div style={{ maxWidth: 980, margin: "0 auto" }}>
-          {phase === "place" && (
+          {/* 観戦：一時停止・1手ずつ・速さ */}
+          {mode === "watch" && (
+            <WatchBar
+              paused={watchPaused}
+              speed={watchSpeed}
+              canStep={watchPaused && !winner}
+              onTogglePause={toggleWatchPause}
+              onStep={stepWatch}
+              onSpeedChange={changeWatchSpeed}
+            />
+          )}
+
+          {mode !== "watch" && phase === "place" && (
             <div style={{ display: "flex", gap: 10 }}>
               <button
                 onClick={cancelPending}
-                disabled={!pendingMove || !!winner || !!isAiTurn}
+                disabled={!pendingMove || !!winner || !!isOpponentTurn}
                 style={{
                   flex: 1,
                   height: 46,
@@ -760,8 +1550,8 @@ export default function App() {
                   border: "1px solid rgba(17,24,39,0.14)",
                   background: "white",
                   fontWeight: 950,
-                  opacity: !pendingMove || winner || isAiTurn ? 0.5 : 1,
-                  cursor: !pendingMove || winner || isAiTurn ? "default" : "pointer",
+                  opacity: !pendingMove || winner || isOpponentTurn ? 0.5 : 1,
+                  cursor: !pendingMove || winner || isOpponentTurn ? "default" : "pointer",
                 }}
               >
                 キャンセル
@@ -769,7 +1559,7 @@ export default function App() {
 
               <button
                 onClick={proceedToRotatePhase}
-                disabled={!pendingMove || !!winner || !!isAiTurn}
+                disabled={!pendingMove || !!winner || !!isOpponentTurn}
                 style={{
                   flex: 1,
                   height: 46,
@@ -777,8 +1567,8 @@ export default function App() {
                   border: "1px solid rgba(17,24,39,0.14)",
                   background: "white",
                   fontWeight: 950,
-                  opacity: !pendingMove || winner || isAiTurn ? 0.5 : 1,
-                  cursor: !pendingMove || winner || isAiTurn ? "default" : "pointer",
+                  opacity: !pendingMove || winner || isOpponentTurn ? 0.5 : 1,
+                  cursor: !pendingMove || winner || isOpponentTurn ? "default" : "pointer",
                 }}
               >
                 次へ（回転）
@@ -786,9 +1576,13 @@ export default function App() {
             </div>
           )}
 
-          {phase === "rotate" && (
+          {mode !== "watch" && phase === "rotate" && (
             <div style={{ display: "grid", gap: 10 }}>
-              <div style={{ fontSize: 12, opacity: 0.75 }}>象限は盤面タップで選択／左右スワイプで回転</div>
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                {game.variant.randomRotation
+                  ? "回す象限と向きはランダムに決まります"
+                  : "象限は盤面タップで選択／ドラッグで回転（ボタンでも回せます）"}
+              </div>
 
               <div style={{ display: "flex", gap: 10 }}>
                 <button
@@ -805,6 +1599,67 @@ export default function App() {
                 >
                   戻る
                 </button>
+
+                {game.variant.randomRotation && (
+                  <button
+                    onClick={rotateRandomly}
+                    disabled={!!isOpponentTurn || !!viewState || !!rotating}
+                    style={{
+                      flex: 1,
+                      height: 46,
+                      borderRadius: 14,
+                      border: "1px solid rgba(17,24,39,0.14)",
+                      background: "white",
+                      fontWeight: 950,
+                      fontSize: 16,
+                      opacity: isOpponentTurn || viewState || rotating ? 0.5 : 1,
+                      cursor: isOpponentTurn || viewState || rotating ? "default" : "pointer",
+                    }}
+                  >
+                    回す（ランダム）
+                  </button>
+                )}
+
+                {!game.variant.randomRotation && (["ccw", "cw"] as const).map((dir) => (
+                  <button
+                    key={dir}
+                    onClick={() => confirmRotation(dir)}
+                    disabled={!!isOpponentTurn || !!viewState || !!rotating}
+                    aria-label={`選択中の象限を${dir === "cw" ? "時計回り" : "反時計回り"}に回転`}
+                    style={{
+                      flex: 1,
+                      height: 46,
+                      borderRadius: 14,
+                      border: "1px solid rgba(17,24,39,0.14)",
+                      background: "white",
+                      fontWeight: 950,
+                      fontSize: 16,
+                      opacity: isOpponentTurn || viewState || rotating ? 0.5 : 1,
+                      cursor: isOpponentTurn || viewState || rotating ? "default" : "pointer",
+                    }}
+                  >
+                    {dir === "cw" ? "↻ 右回り" : "↺ 左回り"}
+                  </button>
+                ))}
+
+                {skipQuadrant !== null && (
+                  <button
+                    onClick={skipRotation}
+                    disabled={!!isOpponentTurn || !!viewState || !!rotating}
+                    style={{
+                      flex: 1,
+                      height: 46,
+                      borderRadius: 14,
+                      border: "1px solid rgba(17,24,39,0.14)",
+                      background: "white",
+                      fontWeight: 950,
+                      opacity: isOpponentTurn || viewState || rotating ? 0.5 : 1,
+                      cursor: isOpponentTurn || viewState || rotating ? "default" : "pointer",
+                    }}
+                  >
+                    回さない
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,36 @@
+import { buttonStyle } from "./styles";
+
+// 小さめのボタン（盤の上の補助操作）
+const smallButtonStyle = { ...buttonStyle, height: 36 } as const;
+
+type Props = {
+  // ヒントを出せる状態か（自分の手番で、盤面を操作できるとき）
+  canHint: boolean;
+  thinking: boolean;
+  onHint: () => void;
+  showThreats: boolean;
+  onToggleThreats: (on: boolean) => void;
+};
+
+/* =========================
+   ヒントと相手の勝ち筋の表示（友達・AIとの対局のみ）
+========================= */
+
+export default function AssistBar({ canHint, thinking, onHint, showThreats, onToggleThreats }: Props) {
+  const disabled = !canHint || thinking;
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap", fontSize: 13, marginBottom: 10 }}>
+      <button
+        onClick={onHint}
+        disabled={disabled}
+        style={{ ...smallButtonStyle, opacity: disabled ? 0.5 : 1, cursor: disabled ? "default" : "pointer" }}
+      >
+        {thinking ? "ヒントを考え中…" : "ヒント"}
+      </button>
+      <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+        <input type="checkbox" checked={showThreats} onChange={(e) => onToggleThreats(e.target.checked)} />
+        相手の勝ち筋を表示
+      </label>
+    </div>
+  );
+}
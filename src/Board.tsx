@@ -1,50 +1,172 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { CellValue, Phase, Player, Pos } from "./types";
+import { STONE_NAMES } from "./core/multiplayer";
+import { formatPos } from "./core/notation";
+import { findFives } from "./core/rules";
+import type { CellValue, Dir, GameState, Move, MultiState, Pos, Stone } from "./types";
 
 type Props = {
-  board: CellValue[][];
-  turn: Player;
-  phase: Phase;
-  pendingMove: Pos | null;
+  // 2人対戦の局面か、3〜4人対戦の局面
+  state: GameState | MultiState;
   onTapCell: (pos: Pos) => void;
 
   selectedQuadrant: number;
   onSelectQuadrant?: (q: number) => void;
 
-  onSwipeRotate?: (dir: "cw" | "ccw") => void;
+  onSwipeRotate?: (dir: Dir) => void;
+
+  // キーボード操作用（Enter で仮置きを確定／Esc で1段階戻す）
+  onConfirmPlacement?: () => void;
+  onCancel?: () => void;
+
+  // 回転アニメーション中の象限（終わったら親が null に戻して盤面を確定する）
+  rotating?: RotationAnimation | null;
+
+  // ヒント：手番側の最善手（置く場所を薄い石で、回す象限を矢印で示す）
+  hint?: Move | null;
+  // 相手が次に置けば5つ並べられるマス
+  threats?: readonly Pos[];
+  // 決着の並びを探すときにまとめて数える色の組（チーム戦のみ）
+  sides?: readonly (readonly Stone[])[];
+};
+
+export type RotationAnimation = { quadrant: number; dir: Dir; ms: number };
+
+// 回転レイヤーを押してから離すまで
+type Drag = {
+  pointerId: number;
+  sx: number;
+  sy: number;
+  // centerから見た開始点ベクトル
+  startRX: number;
+  startRY: number;
+};
+
+// 1辺の象限数（2 = 6×6, 3 = 9×9）ごとの象限の名前
+const QUADRANT_NAMES: Record<number, string[]> = {
+  2: ["左上", "右上", "左下", "右下"],
+  3: ["左上", "上", "右上", "左", "中央", "右", "左下", "下", "右下"],
+};
+
+// 石の色と影（白・黒は従来どおり）
+const STONE_STYLES: Record<Stone, { background: string; boxShadow: string }> = {
+  white: {
+    background: "white",
+    boxShadow: "0 10px 18px rgba(0,0,0,0.22), inset 0 0 0 1px rgba(17,24,39,0.22)",
+  },
+  black: {
+    background: "#111827",
+    boxShadow: "0 10px 18px rgba(0,0,0,0.30), inset 0 0 0 1px rgba(255,255,255,0.12)",
+  },
+  yellow: {
+    background: "#facc15",
+    boxShadow: "0 10px 18px rgba(0,0,0,0.26), inset 0 0 0 1px rgba(255,255,255,0.30)",
+  },
+  blue: {
+    background: "#2563eb",
+    boxShadow: "0 10px 18px rgba(0,0,0,0.26), inset 0 0 0 1px rgba(255,255,255,0.22)",
+  },
+};
+
+// 揃った並びの線の色
+const LINE_COLORS: Record<Stone, string> = {
+  white: "rgba(250,204,21,0.92)",
+  black: "rgba(56,189,248,0.92)",
+  yellow: "rgba(244,114,182,0.92)",
+  blue: "rgba(74,222,128,0.92)",
 };
 
+function cellLabel(pos: Pos, v: CellValue, isPending: boolean, notes: string[]): string {
+  const stone = v ? STONE_NAMES[v] : "空き";
+  return `${formatPos(pos)} ${stone}${isPending ? "（仮置き）" : ""}${notes.map((n) => `（${n}）`).join("")}`;
+}
+
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
 function getQuadrantCenter(
   rect: DOMRect,
-  quadrant: number
+  quadrant: number,
+  n: number
 ): { cx: number; cy: number } {
-  const halfW = rect.width / 2;
-  const halfH = rect.height / 2;
+  const qw = rect.width / n;
+  const qh = rect.height / n;
 
-  const qx = quadrant % 2;      // 0 or 1
-  const qy = quadrant < 2 ? 0 : 1;
+  const qx = quadrant % n;
+  const qy = Math.floor(quadrant / n);
 
   return {
-    cx: rect.left + halfW * (qx + 0.5),
-    cy: rect.top + halfH * (qy + 0.5),
+    cx: rect.left + qw * (qx + 0.5),
+    cy: rect.top + qh * (qy + 0.5),
   };
 }
 
 export default function Board({
-  board,
-  turn,
-  phase,
-  pendingMove,
+  state,
   onTapCell,
   selectedQuadrant,
   onSelectQuadrant,
   onSwipeRotate,
+  onConfirmPlacement,
+  onCancel,
+  rotating = null,
+  hint = null,
+  threats = [],
+  sides,
 }: Props) {
+  const { board, turn, phase, pending: pendingMove, winner, variant } = state;
   const isRotate = phase === "rotate";
+  // 盤の1辺のマス数と象限数（象限は 3×3）
+  const size = board.length;
+  const n = size / 3;
+  const quadrantTotal = n * n;
+
+  // 決着していれば揃った5つを線で示す（同時に揃った引き分けなら両者分）
+  const winLines = useMemo(
+    () => (winner ? findFives(board, variant.winLength, sides) : []),
+    [winner, board, variant.winLength, sides]
+  );
+
+  // ===== キーボード操作（矢印でカーソル移動）=====
+  const [cursor, setCursor] = useState<Pos>({ x: 0, y: 0 });
+  const cellRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  function moveCursor(dx: number, dy: number) {
+    const next = { x: clamp(cursor.x + dx, 0, size - 1), y: clamp(cursor.y + dy, 0, size - 1) };
+    setCursor(next);
+    cellRefs.current[next.y * size + next.x]?.focus();
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    const key = e.key;
+    const arrows: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
+    };
+
+    if (arrows[key]) {
+      moveCursor(...arrows[key]);
+    } else if (key === "Enter" || key === " ") {
+      if (isRotate) return;
+      // 仮置きしたマスでもう一度 Enter なら回転へ
+      if (pendingMove && pendingMove.x === cursor.x && pendingMove.y === cursor.y) onConfirmPlacement?.();
+      else onTapCell(cursor);
+    } else if (key >= "1" && key <= String(quadrantTotal)) {
+      if (!isRotate && pendingMove) onConfirmPlacement?.();
+      if (isRotate || pendingMove) onSelectQuadrant?.(Number(key) - 1);
+    } else if ((key === "q" || key === "Q") && isRotate) {
+      onSwipeRotate?.("ccw");
+    } else if ((key === "e" || key === "E") && isRotate) {
+      onSwipeRotate?.("cw");
+    } else if (key === "Escape") {
+      onCancel?.();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  }
 
   // ===== iPad最適化：画面幅(vw)基準で盤面サイズ決定 =====
   const [vw, setVw] = useState<number>(() =>
@@ -70,19 +192,35 @@ export default function Board({
     return clamp(usable, 280, cap);
   }, [vw]);
 
-  const GAP = useMemo(() => (boardSize >= 560 ? 12 : 10), [boardSize]);
+  // 9×9 は間隔とマスを詰めて同じ幅に収める
+  const GAP = useMemo(() => (size > 6 ? (boardSize >= 560 ? 8 : 5) : boardSize >= 560 ? 12 : 10), [boardSize, size]);
 
   const CELL = useMemo(() => {
-    const raw = (boardSize - GAP * 5) / 6;
-    return Math.round(clamp(raw, 38, 86));
-  }, [boardSize, GAP]);
+    const raw = (boardSize - GAP * (size - 1)) / size;
+    return Math.round(clamp(raw, size > 6 ? 26 : 38, 86));
+  }, [boardSize, GAP, size]);
 
   // 実寸固定でズレ防止
-  const GRID_W = CELL * 6 + GAP * 5;
+  const GRID_W = CELL * size + GAP * (size - 1);
   const GRID_H = GRID_W;
 
-  // 4分割線：中央ギャップの中心
-  const MID = CELL * 3 + GAP * 2 + GAP / 2;
+  // 象限の分割線：象限の境目のギャップの中心
+  const DIVIDERS = Array.from({ length: n - 1 }, (_, i) => CELL * 3 * (i + 1) + GAP * (3 * (i + 1) - 1) + GAP / 2);
+
+  // 回転中の象限のマスは、象限の中心を軸にまとめて 90° 回す
+  function rotationStyle(x: number, y: number): React.CSSProperties {
+    if (!rotating) return {};
+    const q = Math.floor(y / 3) * n + Math.floor(x / 3);
+    if (q !== rotating.quadrant) return {};
+    const center = (CELL * 3 + GAP * 2) / 2;
+    const step = CELL + GAP;
+    return {
+      transform: `rotate(${rotating.dir === "cw" ? 90 : -90}deg)`,
+      transformOrigin: `${center - (x % 3) * step}px ${center - (y % 3) * step}px`,
+      transition: `transform ${rotating.ms}ms ease-in-out`,
+      zIndex: 1,
+    };
+  }
 
   // ===== 見た目（深紅） =====
   const BOARD_TOP = "#8B0000";
@@ -91,59 +229,53 @@ export default function Board({
   const HOLE_BG = "rgba(0,0,0,0.18)";
   const HOLE_BORDER = "rgba(255,255,255,0.18)";
 
-  // ===== 透明スワイプレイヤー（iPad Safari安定：native touch）=====
+  // ===== 透明スワイプレイヤー（Pointer Events：指・マウス・ペン共通）=====
+  // touch-action: none と setPointerCapture で、iPad Safari でもスクロールに奪われない
   const swipeLayerRef = useRef<HTMLDivElement | null>(null);
+  // ドラッグ中の状態は ref に置く（時計の表示更新などで購読し直しても、押している指を見失わない）
+  const dragRef = useRef<Drag | null>(null);
+  // 親の再描画のたびに変わるコールバックは ref 経由で読む
+  const swipeRef = useRef({ selectedQuadrant, onSelectQuadrant, onSwipeRotate });
+  useEffect(() => {
+    swipeRef.current = { selectedQuadrant, onSelectQuadrant, onSwipeRotate };
+  });
 
   useEffect(() => {
     const el = swipeLayerRef.current;
     if (!el) return;
-    if (!isRotate) return;
-
-    let sx = 0;
-    let sy = 0;
-    let tracking = false;
-
-    let startRX = 0; // centerから見た開始点ベクトル
-    let startRY = 0;
+    if (!isRotate) {
+      dragRef.current = null;
+      return;
+    }
 
     const SWIPE_MIN_PX = 26;
     const TAP_MAX_PX = 10;
-    const SWIPE_MAX_ANGLE = 0.65;
 
-    const onStart = (e: TouchEvent) => {
-      if (e.touches.length !== 1) return;
-      tracking = true;
+    const onDown = (e: PointerEvent) => {
+      // 2本目の指・右クリックは無視
+      if (dragRef.current !== null || e.button !== 0) return;
+      el.setPointerCapture(e.pointerId);
 
-      const t = e.touches[0];
-      sx = t.clientX;
-      sy = t.clientY;
+      const sx = e.clientX;
+      const sy = e.clientY;
 
       const rect = el.getBoundingClientRect();
-      const { cx, cy } = getQuadrantCenter(rect, selectedQuadrant);
+      const { cx, cy } = getQuadrantCenter(rect, swipeRef.current.selectedQuadrant, n);
 
-      startRX = sx - cx;
-      startRY = sy - cy;
+      dragRef.current = { pointerId: e.pointerId, sx, sy, startRX: sx - cx, startRY: sy - cy };
 
       e.preventDefault();
     };
 
+    const onUp = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || e.pointerId !== drag.pointerId) return;
+      dragRef.current = null;
+      const { sx, sy, startRX, startRY } = drag;
+      const { onSelectQuadrant, onSwipeRotate } = swipeRef.current;
 
-    const onMove = (e: TouchEvent) => {
-      if (!tracking) return;
-      const dx = e.touches[0].clientX - sx;
-      const dy = e.touches[0].clientY - sy;
-      if (Math.abs(dx) > 10 && Math.abs(dy) <= Math.abs(dx) * SWIPE_MAX_ANGLE) {
-        e.preventDefault();
-      }
-    };
-
-    const onEnd = (e: TouchEvent) => {
-      if (!tracking) return;
-      tracking = false;
-
-      const t = e.changedTouches[0];
-      const ex = t.clientX;
-      const ey = t.clientY;
+      const ex = e.clientX;
+      const ey = e.clientY;
 
       const dx = ex - sx;
       const dy = ey - sy;
@@ -154,9 +286,9 @@ export default function Board({
         const rx = ex - rect.left;
         const ry = ey - rect.top;
 
-        const qx = rx < rect.width / 2 ? 0 : 1;
-        const qy = ry < rect.height / 2 ? 0 : 2;
-        const q = qx + qy;
+        const qx = clamp(Math.floor((rx / rect.width) * n), 0, n - 1);
+        const qy = clamp(Math.floor((ry / rect.height) * n), 0, n - 1);
+        const q = qy * n + qx;
 
         onSelectQuadrant?.(q);
         return;
@@ -176,26 +308,26 @@ export default function Board({
         return;
       }
 
-      // ここは画面座標（y下向き）なので符号が直感と逆になることがある。
-      // まずはこれで “指の回し方向” が一致する方を採用：
-      const dir: "cw" | "ccw" = cross < 0 ? "ccw" : "cw";
-      
+      // 画面座標は y 下向きなので、cross > 0 が見た目の時計回り
+      const dir: Dir = cross < 0 ? "ccw" : "cw";
+
       onSwipeRotate?.(dir);
     };
 
+    const onCancel = (e: PointerEvent) => {
+      if (e.pointerId === dragRef.current?.pointerId) dragRef.current = null;
+    };
 
-    el.addEventListener("touchstart", onStart, { passive: false });
-    el.addEventListener("touchmove", onMove, { passive: false });
-    el.addEventListener("touchend", onEnd, { passive: false });
-    el.addEventListener("touchcancel", onEnd, { passive: false });
+    el.addEventListener("pointerdown", onDown);
+    el.addEventListener("pointerup", onUp);
+    el.addEventListener("pointercancel", onCancel);
 
     return () => {
-      el.removeEventListener("touchstart", onStart);
-      el.removeEventListener("touchmove", onMove);
-      el.removeEventListener("touchend", onEnd);
-      el.removeEventListener("touchcancel", onEnd);
+      el.removeEventListener("pointerdown", onDown);
+      el.removeEventListener("pointerup", onUp);
+      el.removeEventListener("pointercancel", onCancel);
     };
-  }, [isRotate, onSelectQuadrant, onSwipeRotate]);
+  }, [isRotate, n]);
 
   // ===== セルクリック（placeのみ）=====
   function onCellClick(x: number, y: number) {
@@ -236,11 +368,11 @@ export default function Board({
                 pointerEvents: "none",
               }}
             >
-              {([0, 1, 2, 3] as const).map((q) => {
+              {Array.from({ length: quadrantTotal }, (_, q) => {
                 const isSel = q === selectedQuadrant;
 
-                const left = q % 2 === 0 ? 0 : GRID_W / 2;
-                const top = q < 2 ? 0 : GRID_H / 2;
+                const left = ((q % n) * GRID_W) / n;
+                const top = (Math.floor(q / n) * GRID_H) / n;
 
                 return (
                   <div
@@ -249,8 +381,8 @@ export default function Board({
                       position: "absolute",
                       left,
                       top,
-                      width: GRID_W / 2,
-                      height: GRID_H / 2,
+                      width: GRID_W / n,
+                      height: GRID_H / n,
                       background: isSel
                         ? "rgba(255,255,255,0.10)"
                         : "rgba(0,0,0,0.18)",
@@ -270,46 +402,57 @@ export default function Board({
           )}
 
 
-          {/* 4分割線 */}
-          <div
-            aria-hidden
-            style={{
-              position: "absolute",
-              top: -2,
-              bottom: -2,
-              left: MID,
-              width: 3,
-              transform: "translateX(-1.5px)",
-              background: LINE_COLOR,
-              borderRadius: 999,
-              pointerEvents: "none",
-              boxShadow: "0 0 0 1px rgba(0,0,0,0.18)",
-            }}
-          />
-          <div
-            aria-hidden
-            style={{
-              position: "absolute",
-              left: -2,
-              right: -2,
-              top: MID,
-              height: 3,
-              transform: "translateY(-1.5px)",
-              background: LINE_COLOR,
-              borderRadius: 999,
-              pointerEvents: "none",
-              boxShadow: "0 0 0 1px rgba(0,0,0,0.18)",
-            }}
-          />
+          {/* 象限の分割線 */}
+          {DIVIDERS.map((at) => (
+            <div key={at}>
+              <div
+                aria-hidden
+                style={{
+                  position: "absolute",
+                  top: -2,
+                  bottom: -2,
+                  left: at,
+                  width: 3,
+                  transform: "translateX(-1.5px)",
+                  background: LINE_COLOR,
+                  borderRadius: 999,
+                  pointerEvents: "none",
+                  boxShadow: "0 0 0 1px rgba(0,0,0,0.18)",
+                }}
+              />
+              <div
+                aria-hidden
+                style={{
+                  position: "absolute",
+                  left: -2,
+                  right: -2,
+                  top: at,
+                  height: 3,
+                  transform: "translateY(-1.5px)",
+                  background: LINE_COLOR,
+                  borderRadius: 999,
+                  pointerEvents: "none",
+                  boxShadow: "0 0 0 1px rgba(0,0,0,0.18)",
+                }}
+              />
+            </div>
+          ))}
 
           {/* セル */}
           <div
+            role="group"
+            aria-label="盤面"
+            aria-keyshortcuts={`ArrowUp ArrowDown ArrowLeft ArrowRight Enter ${Array.from(
+              { length: quadrantTotal },
+              (_, q) => q + 1
+            ).join(" ")} Q E Escape`}
+            onKeyDown={onKeyDown}
             style={{
               position: "absolute",
               inset: 0,
               display: "grid",
-              gridTemplateColumns: `repeat(6, ${CELL}px)`,
-              gridTemplateRows: `repeat(6, ${CELL}px)`,
+              gridTemplateColumns: `repeat(${size}, ${CELL}px)`,
+              gridTemplateRows: `repeat(${size}, ${CELL}px)`,
               gap: GAP,
             }}
           >
@@ -318,14 +461,24 @@ export default function Board({
                 const isPending = pendingMove && pendingMove.x === x && pendingMove.y === y;
                 const renderVal: CellValue = isPending ? turn : v;
 
+                const isHint = !!hint && hint.pos.x === x && hint.pos.y === y && v === null && !isPending;
+                const isThreat = v === null && threats.some((p) => p.x === x && p.y === y);
+                const notes = [...(isHint ? ["ヒント"] : []), ...(isThreat ? ["相手の勝ち筋"] : [])];
+
                 const insetStone = Math.round(CELL * 0.15);
                 const insetRing = Math.max(2, Math.round(CELL * 0.06));
 
                 return (
                   <div
                     key={`${x}-${y}`}
+                    ref={(el) => {
+                      cellRefs.current[y * size + x] = el;
+                    }}
                     role="button"
-                    aria-label={`cell-${x}-${y}`}
+                    tabIndex={cursor.x === x && cursor.y === y ? 0 : -1}
+                    aria-label={cellLabel({ x, y }, renderVal, !!isPending, notes)}
+                    aria-disabled={isRotate || v !== null}
+                    onFocus={() => setCursor({ x, y })}
                     onClick={() => onCellClick(x, y)}
                     style={{
                       width: CELL,
@@ -336,6 +489,7 @@ export default function Board({
                       boxSizing: "border-box",
                       position: "relative",
                       cursor: isRotate ? "default" : "pointer",
+                      ...rotationStyle(x, y),
                     }}
                   >
                     {renderVal && (
@@ -345,16 +499,40 @@ export default function Board({
                           position: "absolute",
                           inset: insetStone,
                           borderRadius: 999,
-                          background: renderVal === "white" ? "white" : "#111827",
-                          boxShadow:
-                            renderVal === "white"
-                              ? "0 10px 18px rgba(0,0,0,0.22), inset 0 0 0 1px rgba(17,24,39,0.22)"
-                              : "0 10px 18px rgba(0,0,0,0.30), inset 0 0 0 1px rgba(255,255,255,0.12)",
+                          ...STONE_STYLES[renderVal],
                           opacity: isPending ? 0.78 : 1,
                         }}
                       />
                     )}
 
+                    {isHint && (
+                      <div
+                        aria-hidden
+                        style={{
+                          position: "absolute",
+                          inset: insetStone,
+                          borderRadius: 999,
+                          background: STONE_STYLES[turn].background,
+                          opacity: 0.38,
+                          boxShadow: "0 0 0 3px rgba(74,222,128,0.85)",
+                          pointerEvents: "none",
+                        }}
+                      />
+                    )}
+
+                    {isThreat && (
+                      <div
+                        aria-hidden
+                        style={{
+                          position: "absolute",
+                          inset: insetRing,
+                          borderRadius: 999,
+                          border: "3px solid rgba(248,113,113,0.9)",
+                          pointerEvents: "none",
+                        }}
+                      />
+                    )}
+
                     {isPending && (
                       <div
                         aria-hidden
@@ -374,6 +552,59 @@ export default function Board({
             )}
           </div>
 
+          {/* 勝ち筋 */}
+          {winLines.length > 0 && (
+            <svg
+              aria-hidden
+              width={GRID_W}
+              height={GRID_H}
+              style={{ position: "absolute", inset: 0, pointerEvents: "none", zIndex: 2 }}
+            >
+              {winLines.map(({ player, cells }, i) => {
+                const a = cells[0];
+                const b = cells[cells.length - 1];
+                const c = (n: number) => n * (CELL + GAP) + CELL / 2;
+                return (
+                  <line
+                    key={i}
+                    x1={c(a.x)}
+                    y1={c(a.y)}
+                    x2={c(b.x)}
+                    y2={c(b.y)}
+                    stroke={LINE_COLORS[player]}
+                    strokeWidth={Math.max(4, Math.round(CELL * 0.12))}
+                    strokeLinecap="round"
+                  />
+                );
+              })}
+            </svg>
+          )}
+
+          {/* ヒントの回転方向（ランダム回転では回す場所を選べないので出さない） */}
+          {hint && !variant.randomRotation && (
+            <div
+              aria-hidden
+              style={{
+                position: "absolute",
+                left: ((hint.quadrant % n) * GRID_W) / n,
+                top: (Math.floor(hint.quadrant / n) * GRID_H) / n,
+                width: GRID_W / n,
+                height: GRID_H / n,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                fontSize: Math.round(CELL * 1.2),
+                fontWeight: 900,
+                color: "rgba(74,222,128,0.85)",
+                textShadow: "0 2px 8px rgba(0,0,0,0.45)",
+                pointerEvents: "none",
+                zIndex: 3,
+              }}
+            >
+              {hint.dir === "cw" ? "↻" : "↺"}
+            </div>
+          )}
+
           {/* rotate中の透明スワイプレイヤー */}
           {isRotate && (
             <div
@@ -384,6 +615,7 @@ export default function Board({
                 zIndex: 50,
                 background: "transparent",
                 touchAction: "none",
+                cursor: "grab",
                 userSelect: "none",
                 WebkitUserSelect: "none",
               }}
@@ -393,7 +625,13 @@ export default function Board({
 
         {isRotate && (
           <div style={{ marginTop: 10, fontSize: 12, opacity: 0.92, color: "rgba(255,255,255,0.88)" }}>
-            象限：{["左上", "右上", "左下", "右下"][selectedQuadrant]}（タップで選択）／ 左右スワイプで回転（左↺・右↻）
+            象限：{QUADRANT_NAMES[n][selectedQuadrant]}（タップ／クリックで選択）／ 回すようにドラッグで回転
+          </div>
+        )}
+
+        {onConfirmPlacement && (
+          <div style={{ marginTop: 6, fontSize: 11, color: "rgba(255,255,255,0.7)" }}>
+            キーボード：矢印で移動・Enterで置く・1〜{quadrantTotal}で象限・Q/Eで回転・Escで戻る
           </div>
         )}
       </div>
@@ -0,0 +1,49 @@
+import { formatClock, timeLeft, type Clock } from "./core/clock";
+import type { Player } from "./types";
+
+type Props = {
+  clock: Clock;
+  now: number;
+  // AI戦なら AI 側に「AI」と付ける
+  aiSide: Player | null;
+};
+
+export default function ClockBar({ clock, now, aiSide }: Props) {
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 10 }}>
+      {(["white", "black"] as const).map((p) => {
+        const { main, period } = timeLeft(clock, p, now);
+        const running = clock.running === p;
+        const flagged = clock.flagged === p;
+        const inByoyomi = clock.control.kind === "byoyomi" && main <= 0;
+        const low = inByoyomi ? period < 10_000 : main < 10_000;
+        return (
+          <div
+            key={p}
+            role="timer"
+            aria-label={`${p === "white" ? "白" : "黒"}の残り時間`}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: 8,
+              padding: "6px 10px",
+              borderRadius: 12,
+              border: running ? "2px solid rgba(99,102,241,0.9)" : "1px solid rgba(17,24,39,0.14)",
+              background: flagged ? "rgba(185,28,28,0.10)" : "white",
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            <div style={{ fontSize: 12, fontWeight: 900 }}>
+              {aiSide === p ? "AI " : ""}
+              {p === "white" ? "白" : "黒"}
+            </div>
+            <div style={{ fontSize: 18, fontWeight: 950, color: flagged || (running && low) ? "#b91c1c" : undefined }}>
+              {flagged ? "時間切れ" : inByoyomi ? `秒読み ${formatClock(period)}` : formatClock(main)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { graphValue, type MoveReview, type PositionEval } from "./core/analysis";
+
+type Props = {
+  evals: readonly PositionEval[];
+  reviews: readonly MoveReview[];
+  // 全体の局面数（解析が途中でも横幅はこれで決める）
+  total: number;
+  selected: number;
+  onSelect: (ply: number) => void;
+};
+
+const W = 600;
+const H = 140;
+const PAD = 8;
+
+/* =========================
+   評価値グラフ（上が白有利・下が黒有利）
+========================= */
+
+export default function EvalGraph({ evals, reviews, total, selected, onSelect }: Props) {
+  const step = (W - PAD * 2) / Math.max(1, total - 1);
+  const px = (i: number) => PAD + i * step;
+  const py = (score: number) => H / 2 - graphValue(score) * (H / 2 - PAD);
+
+  const points = evals.map((e, i) => `${px(i)},${py(e.score)}`).join(" ");
+  // 白有利の部分を塗る（0 の線と折れ線の間）
+  const area = evals.length > 1 ? `${px(0)},${H / 2} ${points} ${px(evals.length - 1)},${H / 2}` : "";
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      role="img"
+      aria-label="評価値グラフ"
+      style={{
+        width: "100%",
+        height: "auto",
+        display: "block",
+        background: "#111827",
+        borderRadius: 12,
+        touchAction: "manipulation",
+      }}
+      onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * W;
+        const ply = Math.round((x - PAD) / step);
+        onSelect(Math.max(0, Math.min(evals.length - 1, ply)));
+      }}
+    >
+      <rect x={0} y={0} width={W} height={H / 2} fill="rgba(255,255,255,0.08)" />
+      <line x1={0} x2={W} y1={H / 2} y2={H / 2} stroke="rgba(255,255,255,0.25)" />
+      {area && <polygon points={area} fill="rgba(255,255,255,0.18)" />}
+      {evals.length > 1 && <polyline points={points} fill="none" stroke="white" strokeWidth={2} />}
+
+      {reviews.map((r, i) =>
+        r.flag ? (
+          <circle key={i} cx={px(i + 1)} cy={py(r.after.score)} r={5} fill="rgba(248,113,113,1)" />
+        ) : null
+      )}
+
+      <line
+        x1={px(selected)}
+        x2={px(selected)}
+        y1={0}
+        y2={H}
+        stroke="rgba(129,140,248,1)"
+        strokeWidth={2}
+      />
+    </svg>
+  );
+}
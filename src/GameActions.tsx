@@ -0,0 +1,52 @@
+import { buttonStyle } from "./styles";
+import type { Player } from "./types";
+
+// 小さめのボタン（盤の上の補助操作）
+const smallButtonStyle = { ...buttonStyle, height: 36 } as const;
+
+const sideName = (p: Player) => (p === "white" ? "白" : "黒");
+
+type Props = {
+  // 引き分けを提案中の側（友達との対局のみ。AI は提案されたらその場で答える）
+  drawOfferBy: Player | null;
+  // 操作できない間（AIの手番・回転アニメーション中など）は押せない
+  disabled: boolean;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  onReplyDraw: (accept: boolean) => void;
+};
+
+/* =========================
+   友達・AIとの対局中の投了と引き分け提案
+========================= */
+
+export default function GameActions({ drawOfferBy, disabled, onResign, onOfferDraw, onReplyDraw }: Props) {
+  if (drawOfferBy) {
+    return (
+      <div
+        role="alert"
+        style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13, fontWeight: 700, marginBottom: 10 }}
+      >
+        {sideName(drawOfferBy)}が引き分けを提案しています
+        <button onClick={() => onReplyDraw(true)} style={smallButtonStyle}>
+          受ける
+        </button>
+        <button onClick={() => onReplyDraw(false)} style={smallButtonStyle}>
+          断る
+        </button>
+      </div>
+    );
+  }
+
+  const style = { ...smallButtonStyle, opacity: disabled ? 0.5 : 1, cursor: disabled ? "default" : "pointer" };
+  return (
+    <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginBottom: 10 }}>
+      <button onClick={onOfferDraw} disabled={disabled} style={style}>
+        引き分け提案
+      </button>
+      <button onClick={onResign} disabled={disabled} style={style}>
+        投了
+      </button>
+    </div>
+  );
+}
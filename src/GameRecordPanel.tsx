@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { positionUrl } from "./core/codec";
+import { GameRecordError, parseGame, serializeGame, type GameRecord } from "./core/gameRecord";
+import { buttonStyle } from "./styles";
+import type { Grid, Player } from "./types";
+
+function describeError(e: unknown): string {
+  if (e instanceof GameRecordError) {
+    return e.moveIndex === undefined ? e.message : `${e.moveIndex + 1}手目が不正です：${e.message}`;
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
+/* =========================
+   Export（コピー／ダウンロード／局面リンク）
+========================= */
+
+type ExportProps = {
+  record: GameRecord;
+  // 共有リンクにする局面（現在の盤面）。null ならリンクは出さない
+  position: { board: Grid; turn: Player } | null;
+};
+
+export function ExportActions({ record, position }: ExportProps) {
+  const [notice, setNotice] = useState("");
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(serializeGame(record));
+      setNotice("コピーしました");
+    } catch {
+      setNotice("コピーできませんでした");
+    }
+  }
+
+  function download() {
+    const blob = new Blob([serializeGame(record)], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `pentago-${record.date}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function shareLink() {
+    if (!position) return;
+    const url = positionUrl(window.location.href, position.board, position.turn);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "Pentago", url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setNotice("局面リンクをコピーしました");
+    } catch (e) {
+      // 共有シートを閉じただけなら何も言わない
+      if (e instanceof DOMException && e.name === "AbortError") return;
+      setNotice("局面リンクを共有できませんでした");
+    }
+  }
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+      <div style={{ fontSize: 12, opacity: 0.7 }}>棋譜を保存：</div>
+      <button onClick={copy} style={buttonStyle}>
+        コピー
+      </button>
+      <button onClick={download} style={buttonStyle}>
+        ダウンロード
+      </button>
+      {position && (
+        <button onClick={shareLink} style={buttonStyle}>
+          局面リンク
+        </button>
+      )}
+      {notice && <div style={{ fontSize: 12, opacity: 0.7 }}>{notice}</div>}
+    </div>
+  );
+}
+
+/* =========================
+   Import（貼り付け／ファイル）
+========================= */
+
+export function ImportPanel({ onLoad, onBack }: { onLoad: (rec: GameRecord) => void; onBack: () => void }) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState("");
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+    setError("");
+  }
+
+  function load() {
+    try {
+      onLoad(parseGame(text));
+    } catch (e) {
+      setError(describeError(e));
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ fontSize: 18, fontWeight: 950 }}>棋譜を読み込む</div>
+      <div style={{ fontSize: 13, opacity: 0.75 }}>棋譜テキストを貼り付けるか、ファイルを選んでください。</div>
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setError("");
+        }}
+        rows={10}
+        spellCheck={false}
+        placeholder={'[Game "Pentago"]\n...\n\n1. c4 2R'}
+        style={{
+          width: "100%",
+          boxSizing: "border-box",
+          borderRadius: 12,
+          border: "1px solid rgba(17,24,39,0.18)",
+          padding: 10,
+          fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+          fontSize: 13,
+        }}
+      />
+
+      <input type="file" accept=".txt,text/plain" onChange={(e) => onFile(e.target.files?.[0])} />
+
+      {error && (
+        <div role="alert" style={{ fontSize: 13, color: "#b91c1c", fontWeight: 700 }}>
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={load}
+        disabled={text.trim() === ""}
+        style={{ ...buttonStyle, height: 52, borderRadius: 16, fontSize: 16, opacity: text.trim() === "" ? 0.5 : 1 }}
+      >
+        読み込む
+      </button>
+      <button onClick={onBack} style={{ ...buttonStyle, height: 44, borderRadius: 16, fontWeight: 400 }}>
+        戻る
+      </button>
+    </div>
+  );
+}
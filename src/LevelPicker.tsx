@@ -0,0 +1,34 @@
+import { AI_LEVELS, AI_LEVEL_ORDER, type AiLevel } from "./core/ai";
+
+type Props = {
+  value: AiLevel;
+  onChange: (level: AiLevel) => void;
+};
+
+export default function LevelPicker({ value, onChange }: Props) {
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 8 }}>
+      {AI_LEVEL_ORDER.map((lv) => {
+        const isSel = lv === value;
+        return (
+          <button
+            key={lv}
+            onClick={() => onChange(lv)}
+            aria-pressed={isSel}
+            style={{
+              height: 44,
+              borderRadius: 12,
+              border: isSel ? "2px solid rgba(99,102,241,0.9)" : "1px solid rgba(17,24,39,0.14)",
+              background: isSel ? "rgba(99,102,241,0.12)" : "white",
+              fontWeight: isSel ? 950 : 700,
+              fontSize: 13,
+              cursor: "pointer",
+            }}
+          >
+            {AI_LEVELS[lv].label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef } from "react";
+import { formatMove } from "./core/notation";
+import type { MoveRecord } from "./core/history";
+
+type Props = {
+  moves: readonly MoveRecord[];
+  // 表示中の局面（何手目の後か）。null なら最新局面
+  viewing: number | null;
+  // 何手目の後の局面を見るか。null で最新局面に戻る
+  onSelect: (cursor: number | null) => void;
+};
+
+export default function MoveList({ moves, viewing, onSelect }: Props) {
+  const listRef = useRef<HTMLOListElement | null>(null);
+
+  // 新しい手が増えたら末尾までスクロール
+  useEffect(() => {
+    const el = listRef.current;
+    if (el && viewing === null) el.scrollTop = el.scrollHeight;
+  }, [moves.length, viewing]);
+
+  return (
+    <div
+      style={{
+        marginTop: 14,
+        background: "white",
+        border: "1px solid rgba(17,24,39,0.12)",
+        borderRadius: 16,
+        padding: 10,
+        boxSizing: "border-box",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 6 }}>
+        <div style={{ fontSize: 13, fontWeight: 900 }}>棋譜</div>
+        {viewing !== null && (
+          <button
+            onClick={() => onSelect(null)}
+            style={{
+              height: 30,
+              padding: "0 10px",
+              borderRadius: 10,
+              border: "1px solid rgba(17,24,39,0.14)",
+              background: "white",
+              fontSize: 12,
+              fontWeight: 900,
+              cursor: "pointer",
+            }}
+          >
+            最新に戻る
+          </button>
+        )}
+      </div>
+
+      {moves.length === 0 ? (
+        <div style={{ fontSize: 12, opacity: 0.6 }}>まだ手がありません</div>
+      ) : (
+        <ol
+          ref={listRef}
+          style={{
+            listStyle: "none",
+            margin: 0,
+            padding: 0,
+            maxHeight: 160,
+            overflowY: "auto",
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(96px, 1fr))",
+            gap: 4,
+          }}
+        >
+          {moves.map((m, i) => {
+            const cursor = i + 1;
+            const isLatest = cursor === moves.length;
+            const isSel = viewing === null ? isLatest : viewing === cursor;
+            return (
+              <li key={i}>
+                <button
+                  onClick={() => onSelect(isLatest ? null : cursor)}
+                  aria-current={isSel ? "step" : undefined}
+                  style={{
+                    width: "100%",
+                    height: 30,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    padding: "0 8px",
+                    borderRadius: 8,
+                    border: isSel ? "1px solid rgba(99,102,241,0.8)" : "1px solid transparent",
+                    background: isSel ? "rgba(99,102,241,0.10)" : "transparent",
+                    fontSize: 13,
+                    fontVariantNumeric: "tabular-nums",
+                    cursor: "pointer",
+                  }}
+                >
+                  <span style={{ opacity: 0.55, minWidth: 18, textAlign: "right" }}>{cursor}.</span>
+                  <span
+                    aria-hidden
+                    style={{
+                      width: 10,
+                      height: 10,
+                      borderRadius: 999,
+                      background: m.player === "white" ? "white" : "#111827",
+                      boxShadow: "inset 0 0 0 1px rgba(17,24,39,0.4)",
+                    }}
+                  />
+                  <span style={{ fontWeight: 800 }}>{formatMove(m)}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
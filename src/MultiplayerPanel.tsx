@@ -0,0 +1,314 @@
+import { useMemo, useState } from "react";
+import Board from "./Board";
+import VariantPicker from "./VariantPicker";
+import {
+  STONES,
+  STONE_NAMES,
+  createMultiGame,
+  isValidConfig,
+  multiResult,
+  rotateMulti,
+  sidesOf,
+} from "./core/multiplayer";
+import { formatMove } from "./core/notation";
+import { IllegalMoveError, canPlace, confirmPlacement, place, skippableQuadrant, undo } from "./core/rules";
+import { STANDARD_VARIANT, drawRotation } from "./core/variant";
+import { buttonStyle } from "./styles";
+import type { Dir, Move, MultiConfig, MultiState, Pos, Stone } from "./types";
+
+// 3〜4人なら 9×9（Pentago XL）が標準
+const DEFAULT_CONFIG: MultiConfig = {
+  order: ["white", "black", "yellow"],
+  teams: false,
+  variant: { ...STANDARD_VARIANT, quadrants: 3 },
+};
+
+function chipStyle(isSel: boolean) {
+  return {
+    height: 36,
+    padding: "0 12px",
+    borderRadius: 12,
+    border: isSel ? "2px solid rgba(99,102,241,0.9)" : "1px solid rgba(17,24,39,0.14)",
+    background: isSel ? "rgba(99,102,241,0.12)" : "white",
+    fontWeight: isSel ? 950 : 700,
+    fontSize: 13,
+    cursor: "pointer",
+  } as const;
+}
+
+function sideText(side: readonly Stone[]): string {
+  return side.length > 1 ? `${side.map((s) => STONE_NAMES[s]).join("・")}チーム` : STONE_NAMES[side[0]];
+}
+
+/* =========================
+   3〜4人対戦の設定（人数・色・手番の順・チーム戦・ルール）
+========================= */
+
+function MultiSetup({
+  config,
+  onChange,
+  onStart,
+}: {
+  config: MultiConfig;
+  onChange: (c: MultiConfig) => void;
+  onStart: () => void;
+}) {
+  const { order, teams } = config;
+
+  // 色を付け外しする（3〜4色の範囲で。外すとチーム戦は解除）
+  function toggleStone(s: Stone) {
+    if (order.includes(s)) {
+      if (order.length > 3) onChange({ ...config, order: order.filter((o) => o !== s), teams: false });
+    } else if (order.length < 4) {
+      onChange({ ...config, order: [...order, s] });
+    }
+  }
+
+  function moveUp(i: number) {
+    const next = order.slice();
+    [next[i - 1], next[i]] = [next[i], next[i - 1]];
+    onChange({ ...config, order: next });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 14 }}>
+      <div style={{ display: "grid", gap: 6 }}>
+        <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.75 }}>使う色（3〜4色）</div>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+          {STONES.map((s) => (
+            <button key={s} onClick={() => toggleStone(s)} aria-pressed={order.includes(s)} style={chipStyle(order.includes(s))}>
+              {STONE_NAMES[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.75 }}>手番の順</div>
+        <ol style={{ margin: 0, paddingLeft: 20, display: "grid", gap: 6 }}>
+          {order.map((s, i) => (
+            <li key={s}>
+              <span style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                <span style={{ fontWeight: 900, minWidth: 24 }}>{STONE_NAMES[s]}</span>
+                {i > 0 && (
+                  <button
+                    onClick={() => moveUp(i)}
+                    aria-label={`${STONE_NAMES[s]}を1つ前にする`}
+                    style={{ ...buttonStyle, height: 30, padding: "0 8px" }}
+                  >
+                    ▲
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 6,
+          fontSize: 13,
+          opacity: order.length === 4 ? 1 : 0.5,
+          cursor: order.length === 4 ? "pointer" : "default",
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={teams}
+          disabled={order.length !== 4}
+          onChange={(e) => onChange({ ...config, teams: e.target.checked })}
+        />
+        チーム戦（1・3番目と2・4番目が味方。味方の石は一緒に数える）
+      </label>
+
+      <VariantPicker value={config.variant} onChange={(variant) => onChange({ ...config, variant })} />
+
+      <button
+        onClick={onStart}
+        disabled={!isValidConfig(config)}
+        style={{ ...buttonStyle, height: 52, fontSize: 16, fontWeight: 950 }}
+      >
+        {order.length}人で対戦開始
+      </button>
+    </div>
+  );
+}
+
+/* =========================
+   3〜4人対戦（同じ端末で順番に指す）
+========================= */
+
+export default function MultiplayerPanel({ onBack }: { onBack: () => void }) {
+  const [config, setConfig] = useState<MultiConfig>(DEFAULT_CONFIG);
+  const [game, setGame] = useState<MultiState | null>(null);
+  const [moves, setMoves] = useState<{ stone: Stone; move: Move }[]>([]);
+  const [selectedQuadrant, setSelectedQuadrant] = useState(0);
+  const [error, setError] = useState("");
+
+  const sides = useMemo(() => (game?.config.teams ? sidesOf(game.config) : undefined), [game]);
+  const result = useMemo(() => (game?.winner ? multiResult(game.board, game.config) : null), [game]);
+
+  function start(c: MultiConfig = config) {
+    setGame(createMultiGame(c));
+    setMoves([]);
+    setSelectedQuadrant(0);
+    setError("");
+  }
+
+  if (!game) {
+    return (
+      <div style={{ display: "grid", gap: 12 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+          <div style={{ fontSize: 20, fontWeight: 950 }}>3〜4人で対戦</div>
+          <button onClick={onBack} style={buttonStyle}>
+            ホーム
+          </button>
+        </div>
+        <MultiSetup config={config} onChange={setConfig} onStart={() => start()} />
+      </div>
+    );
+  }
+
+  const current = game;
+  const name = STONE_NAMES[current.turn];
+  const skipQuadrant = skippableQuadrant(current);
+
+  function onTapCell(pos: Pos) {
+    if (!canPlace(current, pos)) return;
+    setGame(place(current, pos));
+  }
+
+  function confirmRotation(dir: Dir, quadrant: number = selectedQuadrant) {
+    if (!current.pending) return;
+    try {
+      const next = rotateMulti(current, quadrant, dir);
+      setMoves((m) => [...m, { stone: current.turn, move: { pos: current.pending!, quadrant, dir } }]);
+      setGame(next);
+      setError("");
+    } catch (e) {
+      if (!(e instanceof IllegalMoveError)) throw e;
+      setError(e.message);
+    }
+  }
+
+  function rotateRandomly() {
+    const { quadrant, dir } = drawRotation(current.variant);
+    confirmRotation(dir, quadrant);
+  }
+
+  const statusText = result
+    ? result.winner === "draw"
+      ? result.reason === "doubleFive"
+        ? "同時に並んで引き分け！"
+        : "盤が埋まって引き分け！"
+      : `${sideText(result.winner)}の勝ち！`
+    : current.phase === "place"
+      ? current.pending
+        ? `${name}：次へを押して回転へ`
+        : `${name}の番：空マスをタップして仮置き`
+      : current.variant.randomRotation
+        ? `${name}の番：回すボタンでランダムに回転して確定`
+        : `${name}の番：象限タップ→ドラッグかボタンで回転して確定`;
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <div style={{ fontSize: 20, fontWeight: 950 }}>
+          {current.config.order.length}人対戦{current.config.teams ? "（チーム戦）" : ""}
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={() => setGame(null)} style={buttonStyle}>
+            設定
+          </button>
+          <button onClick={() => start(current.config)} style={buttonStyle}>
+            リセット
+          </button>
+          <button onClick={onBack} style={buttonStyle}>
+            ホーム
+          </button>
+        </div>
+      </div>
+
+      <div style={{ fontSize: 13, opacity: 0.7 }}>
+        手番の順：{current.config.order.map((s) => STONE_NAMES[s]).join(" → ")}
+        {sides && `（${sides.map(sideText).join(" 対 ")}）`}
+      </div>
+      <div role="status" style={{ fontSize: 14, fontWeight: result ? 950 : 700 }}>
+        {statusText}
+      </div>
+      {error && <div style={{ fontSize: 12, opacity: 0.75 }}>{error}</div>}
+
+      <Board
+        state={current}
+        onTapCell={onTapCell}
+        selectedQuadrant={selectedQuadrant}
+        onSelectQuadrant={setSelectedQuadrant}
+        onSwipeRotate={(dir) => (current.variant.randomRotation ? rotateRandomly() : confirmRotation(dir))}
+        onConfirmPlacement={() => current.pending && setGame(confirmPlacement(current))}
+        onCancel={() => !current.winner && (current.phase === "rotate" || current.pending) && setGame(undo(current))}
+        sides={sides}
+      />
+
+      {!result && current.phase === "place" && (
+        <div style={{ display: "flex", gap: 10 }}>
+          <button
+            onClick={() => setGame(undo(current))}
+            disabled={!current.pending}
+            style={{ ...buttonStyle, flex: 1, height: 46, opacity: current.pending ? 1 : 0.5 }}
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={() => setGame(confirmPlacement(current))}
+            disabled={!current.pending}
+            style={{ ...buttonStyle, flex: 1, height: 46, opacity: current.pending ? 1 : 0.5 }}
+          >
+            次へ（回転）
+          </button>
+        </div>
+      )}
+
+      {!result && current.phase === "rotate" && (
+        <div style={{ display: "flex", gap: 10 }}>
+          <button onClick={() => setGame(undo(current))} style={{ ...buttonStyle, height: 46 }}>
+            戻る
+          </button>
+          {current.variant.randomRotation ? (
+            <button onClick={rotateRandomly} style={{ ...buttonStyle, flex: 1, height: 46 }}>
+              回す（ランダム）
+            </button>
+          ) : (
+            (["ccw", "cw"] as const).map((dir) => (
+              <button
+                key={dir}
+                onClick={() => confirmRotation(dir)}
+                aria-label={`選択中の象限を${dir === "cw" ? "時計回り" : "反時計回り"}に回転`}
+                style={{ ...buttonStyle, flex: 1, height: 46, fontSize: 16 }}
+              >
+                {dir === "cw" ? "↻ 右回り" : "↺ 左回り"}
+              </button>
+            ))
+          )}
+          {skipQuadrant !== null && (
+            <button onClick={() => confirmRotation("cw", skipQuadrant)} style={{ ...buttonStyle, flex: 1, height: 46 }}>
+              回さない
+            </button>
+          )}
+        </div>
+      )}
+
+      {moves.length > 0 && (
+        <ol style={{ margin: 0, paddingLeft: 28, fontSize: 13, fontVariantNumeric: "tabular-nums" }}>
+          {moves.map(({ stone, move }, i) => (
+            <li key={i}>
+              {STONE_NAMES[stone]} {formatMove(move)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import type { ConnectionStatus } from "./online/onlineClient";
+import { ROOM_CODE_LENGTH, normalizeRoomCode, type RoomSnapshot } from "./online/protocol";
+import { buttonStyle } from "./styles";
+import type { Player } from "./types";
+
+// 対局中の部屋（App が持つ。サーバーから sync が届くたびに snapshot を差し替える）
+export type OnlineSession = {
+  side: Player;
+  snapshot: RoomSnapshot;
+};
+
+// 押しやすい高さのボタン
+const tallButtonStyle = { ...buttonStyle, height: 44 } as const;
+
+const inputStyle = {
+  height: 44,
+  borderRadius: 12,
+  border: "1px solid rgba(17,24,39,0.18)",
+  padding: "0 10px",
+  fontSize: 15,
+  boxSizing: "border-box",
+  width: "100%",
+} as const;
+
+const sideName = (p: Player) => (p === "white" ? "白" : "黒");
+
+/* =========================
+   Lobby（部屋を作る／コードで入る）
+========================= */
+
+type LobbyProps = {
+  defaultUrl: string;
+  error: string;
+  busy: boolean;
+  onCreate: (url: string, side: Player) => void;
+  onJoin: (url: string, room: string) => void;
+  onBack: () => void;
+};
+
+export function OnlineLobby({ defaultUrl, error, busy, onCreate, onJoin, onBack }: LobbyProps) {
+  const [url, setUrl] = useState(defaultUrl);
+  const [code, setCode] = useState("");
+  const codeOk = normalizeRoomCode(code).length === ROOM_CODE_LENGTH;
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ fontSize: 18, fontWeight: 950 }}>オンライン対戦</div>
+
+      <label style={{ display: "grid", gap: 4, fontSize: 12, opacity: 0.8 }}>
+        サーバー
+        <input value={url} onChange={(e) => setUrl(e.target.value)} spellCheck={false} style={inputStyle} />
+      </label>
+
+      <div style={{ fontSize: 13, fontWeight: 900, marginTop: 6 }}>部屋を作る</div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        {(["white", "black"] as const).map((p) => (
+          <button key={p} onClick={() => onCreate(url, p)} disabled={busy} style={tallButtonStyle}>
+            {p === "white" ? "先手（白）で作る" : "後手（黒）で作る"}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ fontSize: 13, fontWeight: 900, marginTop: 6 }}>部屋コードで入る</div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 10 }}>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="ABCDE"
+          maxLength={ROOM_CODE_LENGTH}
+          autoCapitalize="characters"
+          spellCheck={false}
+          aria-label="部屋コード"
+          style={{ ...inputStyle, letterSpacing: 4, textTransform: "uppercase" }}
+        />
+        <button
+          onClick={() => onJoin(url, code)}
+          disabled={busy || !codeOk}
+          style={{ ...tallButtonStyle, opacity: busy || !codeOk ? 0.5 : 1 }}
+        >
+          参加
+        </button>
+      </div>
+
+      {busy && <div style={{ fontSize: 13, opacity: 0.7 }}>接続中…</div>}
+      {error && (
+        <div role="alert" style={{ fontSize: 13, color: "#b91c1c", fontWeight: 700 }}>
+          {error}
+        </div>
+      )}
+
+      <button onClick={onBack} style={{ ...tallButtonStyle, fontWeight: 400 }}>
+        戻る
+      </button>
+    </div>
+  );
+}
+
+/* =========================
+   対局中の部屋情報と 投了／引き分け提案
+========================= */
+
+type BarProps = {
+  session: OnlineSession;
+  status: ConnectionStatus;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  onReplyDraw: (accept: boolean) => void;
+};
+
+export function OnlineBar({ session, status, onResign, onOfferDraw, onReplyDraw }: BarProps) {
+  const { side, snapshot } = session;
+  const other = side === "white" ? "black" : "white";
+  const seat = snapshot.seats[other];
+  const over = snapshot.result !== null;
+
+  const connection =
+    status === "open" ? "" : status === "closed" ? "切断しました" : "サーバーに再接続しています…";
+  const opponent =
+    seat === "empty" ? "相手の参加を待っています" : seat === "disconnected" ? "相手の接続が切れています" : "";
+
+  return (
+    <div style={{ display: "grid", gap: 8, marginBottom: 10 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+        <div>
+          部屋 <b style={{ letterSpacing: 2 }}>{snapshot.room}</b>・あなたは{sideName(side)}
+        </div>
+        {(connection || opponent) && <div style={{ opacity: 0.7 }}>{connection || opponent}</div>}
+        {!over && (
+          <div style={{ display: "flex", gap: 8, marginLeft: "auto" }}>
+            <button
+              onClick={onOfferDraw}
+              disabled={snapshot.drawOfferBy !== null}
+              style={{ ...tallButtonStyle, height: 36, opacity: snapshot.drawOfferBy !== null ? 0.5 : 1 }}
+            >
+              引き分け提案
+            </button>
+            <button onClick={onResign} style={{ ...tallButtonStyle, height: 36 }}>
+              投了
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!over && snapshot.drawOfferBy === other && (
+        <div role="alert" style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, fontWeight: 700 }}>
+          相手が引き分けを提案しています
+          <button onClick={() => onReplyDraw(true)} style={{ ...tallButtonStyle, height: 36 }}>
+            受ける
+          </button>
+          <button onClick={() => onReplyDraw(false)} style={{ ...tallButtonStyle, height: 36 }}>
+            断る
+          </button>
+        </div>
+      )}
+      {!over && snapshot.drawOfferBy === side && (
+        <div style={{ fontSize: 12, opacity: 0.7 }}>引き分けを提案しました（相手の返事待ち）</div>
+      )}
+    </div>
+  );
+}
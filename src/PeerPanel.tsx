@@ -0,0 +1,176 @@
+import { useState } from "react";
+import type { PeerStatus } from "./online/peerLink";
+import { buttonStyle } from "./styles";
+import type { GameResult, Player } from "./types";
+
+// P2P 対戦の様子（App が持つ）。guest の side は host から hello が届くまで null
+export type PeerSession = {
+  role: "host" | "guest";
+  side: Player | null;
+  status: PeerStatus;
+  result: GameResult | null;
+};
+
+// 押しやすい高さのボタン
+const tallButtonStyle = { ...buttonStyle, height: 44 } as const;
+
+const codeStyle = {
+  width: "100%",
+  boxSizing: "border-box",
+  borderRadius: 12,
+  border: "1px solid rgba(17,24,39,0.18)",
+  padding: 10,
+  fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+  fontSize: 12,
+  wordBreak: "break-all",
+} as const;
+
+function describeError(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/* =========================
+   接続（招待コード／返事コードの受け渡し）
+========================= */
+
+type SetupProps = {
+  onHost: (side: Player) => Promise<string>;
+  onJoin: (offer: string) => Promise<string>;
+  onAnswer: (answer: string) => Promise<void>;
+  onBack: () => void;
+};
+
+export function PeerSetup({ onHost, onJoin, onAnswer, onBack }: SetupProps) {
+  const [role, setRole] = useState<"host" | "guest" | null>(null);
+  // 自分が作って相手に渡すコード
+  const [myCode, setMyCode] = useState("");
+  // 相手から受け取って貼り付けるコード
+  const [theirCode, setTheirCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await task();
+    } catch (e) {
+      setError(describeError(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(myCode);
+      setNotice("コピーしました");
+    } catch {
+      setNotice("コピーできませんでした（選択してコピーしてください）");
+    }
+  }
+
+  const host = (side: Player) =>
+    run(async () => {
+      setRole("host");
+      setMyCode(await onHost(side));
+    });
+
+  const join = () =>
+    run(async () => {
+      setMyCode(await onJoin(theirCode));
+    });
+
+  const answer = () => run(() => onAnswer(theirCode));
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ fontSize: 18, fontWeight: 950 }}>P2P 対戦（サーバーなし）</div>
+      <div style={{ fontSize: 13, opacity: 0.75 }}>
+        招待する側がコードを作って相手に送り、相手から返ってきたコードを貼り付けると繋がります。
+      </div>
+
+      {role === null && (
+        <>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+            <button onClick={() => host("white")} disabled={busy} style={tallButtonStyle}>
+              招待する（自分が白）
+            </button>
+            <button onClick={() => host("black")} disabled={busy} style={tallButtonStyle}>
+              招待する（自分が黒）
+            </button>
+          </div>
+          <button onClick={() => setRole("guest")} disabled={busy} style={tallButtonStyle}>
+            招待コードを受け取った
+          </button>
+        </>
+      )}
+
+      {role === "guest" && !myCode && (
+        <>
+          <div style={{ fontSize: 13, fontWeight: 900 }}>① 届いた招待コードを貼り付け</div>
+          <textarea value={theirCode} onChange={(e) => setTheirCode(e.target.value)} rows={4} spellCheck={false} style={codeStyle} />
+          <button onClick={join} disabled={busy || theirCode.trim() === ""} style={tallButtonStyle}>
+            返事コードを作る
+          </button>
+        </>
+      )}
+
+      {myCode && (
+        <>
+          <div style={{ fontSize: 13, fontWeight: 900 }}>
+            {role === "host" ? "① この招待コードを相手に送る" : "② この返事コードを相手に送る（繋がるまで待つ）"}
+          </div>
+          <textarea value={myCode} readOnly rows={4} onFocus={(e) => e.currentTarget.select()} style={codeStyle} />
+          <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <button onClick={copy} style={tallButtonStyle}>
+              コピー
+            </button>
+            {notice && <div style={{ fontSize: 12, opacity: 0.7 }}>{notice}</div>}
+          </div>
+        </>
+      )}
+
+      {role === "host" && myCode && (
+        <>
+          <div style={{ fontSize: 13, fontWeight: 900 }}>② 相手の返事コードを貼り付け</div>
+          <textarea value={theirCode} onChange={(e) => setTheirCode(e.target.value)} rows={4} spellCheck={false} style={codeStyle} />
+          <button onClick={answer} disabled={busy || theirCode.trim() === ""} style={tallButtonStyle}>
+            接続する
+          </button>
+        </>
+      )}
+
+      {busy && <div style={{ fontSize: 13, opacity: 0.7 }}>準備中…</div>}
+      {error && (
+        <div role="alert" style={{ fontSize: 13, color: "#b91c1c", fontWeight: 700 }}>
+          {error}
+        </div>
+      )}
+
+      <button onClick={onBack} style={{ ...tallButtonStyle, fontWeight: 400 }}>
+        戻る
+      </button>
+    </div>
+  );
+}
+
+/* =========================
+   対局中の接続状態と投了
+========================= */
+
+export function PeerBar({ session, onResign }: { session: PeerSession; onResign: () => void }) {
+  const { side, status, result } = session;
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13, marginBottom: 10 }}>
+      <div>P2P 対戦・あなたは{side === "white" ? "白" : "黒"}</div>
+      {status !== "open" && <div style={{ opacity: 0.7 }}>接続が切れました</div>}
+      {!result && status === "open" && (
+        <button onClick={onResign} style={{ ...tallButtonStyle, height: 36, marginLeft: "auto" }}>
+          投了
+        </button>
+      )}
+    </div>
+  );
+}
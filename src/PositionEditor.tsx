@@ -0,0 +1,99 @@
+import { useMemo, useState } from "react";
+import Board from "./Board";
+import type { AiLevel } from "./core/ai";
+import { countStones, cycleCell, validatePosition, type PositionIssue } from "./core/position";
+import { createEmptyBoard, createGame } from "./core/rules";
+import LevelPicker from "./LevelPicker";
+import { buttonStyle } from "./styles";
+import type { CellValue, Grid, Player, Pos } from "./types";
+
+type Props = {
+  aiLevel: AiLevel;
+  onChangeLevel: (level: AiLevel) => void;
+  // humanSide が null なら友達と対戦
+  onStart: (board: Grid, turn: Player, humanSide: Player | null) => void;
+  onBack: () => void;
+};
+
+const ISSUE_TEXT: Record<PositionIssue, string> = {
+  parity: "石の数が手番と合いません（白番なら 白＝黒、黒番なら 白＝黒＋1）",
+  finished: "すでに勝敗が付いています",
+};
+
+// 押しやすい高さのボタン
+const tallButtonStyle = { ...buttonStyle, height: 44 } as const;
+
+export default function PositionEditor({ aiLevel, onChangeLevel, onStart, onBack }: Props) {
+  const [board, setBoard] = useState<CellValue[][]>(createEmptyBoard);
+  const [turn, setTurn] = useState<Player>("white");
+
+  const state = useMemo(() => createGame(board, turn), [board, turn]);
+  const issues = useMemo(() => validatePosition(board, turn), [board, turn]);
+  const count = countStones(board);
+  const ok = issues.length === 0;
+
+  function onTapCell(pos: Pos) {
+    setBoard(cycleCell(board, pos));
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <div style={{ fontSize: 18, fontWeight: 950 }}>局面を作る</div>
+        <button onClick={onBack} style={{ ...tallButtonStyle, height: 40, fontWeight: 700 }}>
+          戻る
+        </button>
+      </div>
+
+      <div style={{ fontSize: 13, opacity: 0.75 }}>マスをタップ：空 → 白 → 黒 → 空</div>
+
+      <Board state={state} onTapCell={onTapCell} selectedQuadrant={0} />
+
+      <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+        <div style={{ fontSize: 13, fontWeight: 900 }}>手番：</div>
+        {(["white", "black"] as const).map((p) => (
+          <button
+            key={p}
+            onClick={() => setTurn(p)}
+            aria-pressed={turn === p}
+            style={{
+              ...tallButtonStyle,
+              height: 40,
+              border: turn === p ? "2px solid rgba(99,102,241,0.9)" : tallButtonStyle.border,
+              background: turn === p ? "rgba(99,102,241,0.12)" : "white",
+            }}
+          >
+            {p === "white" ? "白番" : "黒番"}
+          </button>
+        ))}
+        <div style={{ fontSize: 12, opacity: 0.7 }}>
+          白 {count.white}・黒 {count.black}
+        </div>
+        <button onClick={() => setBoard(createEmptyBoard())} style={{ ...tallButtonStyle, height: 40, marginLeft: "auto" }}>
+          クリア
+        </button>
+      </div>
+
+      {issues.map((i) => (
+        <div key={i} role="alert" style={{ fontSize: 13, color: "#b91c1c", fontWeight: 700 }}>
+          {ISSUE_TEXT[i]}
+        </div>
+      ))}
+
+      <div style={{ display: "grid", gap: 10, opacity: ok ? 1 : 0.5 }}>
+        <button onClick={() => onStart(board, turn, null)} disabled={!ok} style={tallButtonStyle}>
+          この局面から友達と対戦
+        </button>
+        <LevelPicker value={aiLevel} onChange={onChangeLevel} />
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+          <button onClick={() => onStart(board, turn, "white")} disabled={!ok} style={tallButtonStyle}>
+            AIと対戦（自分が白）
+          </button>
+          <button onClick={() => onStart(board, turn, "black")} disabled={!ok} style={tallButtonStyle}>
+            AIと対戦（自分が黒）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
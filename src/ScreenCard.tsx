@@ -0,0 +1,54 @@
+import type { ReactNode } from "react";
+
+const DEFAULT_BACKGROUND =
+  "radial-gradient(900px 500px at 20% 10%, rgba(99,102,241,0.20), transparent 60%)," +
+  "linear-gradient(180deg, rgba(249,250,251,1), rgba(243,244,246,1))";
+
+type Props = {
+  children: ReactNode;
+  // 画面全体の背景（ホームだけ色を足す）
+  background?: string;
+  // カードの下に置く飾り
+  below?: ReactNode;
+};
+
+/* =========================
+   ホーム・設定画面の共通の枠（背景の上にカードを1枚置く）
+========================= */
+
+export default function ScreenCard({ children, background = DEFAULT_BACKGROUND, below }: Props) {
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        paddingTop: 44,
+        paddingLeft: "max(16px, env(safe-area-inset-left))",
+        paddingRight: "max(16px, env(safe-area-inset-right))",
+        paddingBottom: 16,
+        background,
+        boxSizing: "border-box",
+        display: "flex",
+        alignItems: "flex-start",
+        justifyContent: "center",
+      }}
+    >
+      <div style={{ width: "100%", maxWidth: "100%" }}>
+        <div
+          style={{
+            background: "rgba(255,255,255,0.88)",
+            border: "1px solid rgba(17,24,39,0.12)",
+            borderRadius: 24,
+            padding: 20,
+            boxShadow: "0 18px 50px rgba(0,0,0,0.10)",
+            backdropFilter: "blur(10px)",
+            overflow: "hidden",
+            boxSizing: "border-box",
+          }}
+        >
+          {children}
+        </div>
+        {below}
+      </div>
+    </div>
+  );
+}
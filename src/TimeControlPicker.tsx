@@ -0,0 +1,38 @@
+import { TIME_CONTROLS, TIME_CONTROL_ORDER, type TimeControlId } from "./core/clock";
+
+type Props = {
+  value: TimeControlId;
+  onChange: (id: TimeControlId) => void;
+};
+
+export default function TimeControlPicker({ value, onChange }: Props) {
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.75 }}>持ち時間</div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+        {TIME_CONTROL_ORDER.map((id) => {
+          const isSel = id === value;
+          return (
+            <button
+              key={id}
+              onClick={() => onChange(id)}
+              aria-pressed={isSel}
+              style={{
+                height: 36,
+                padding: "0 10px",
+                borderRadius: 12,
+                border: isSel ? "2px solid rgba(99,102,241,0.9)" : "1px solid rgba(17,24,39,0.14)",
+                background: isSel ? "rgba(99,102,241,0.12)" : "white",
+                fontWeight: isSel ? 950 : 700,
+                fontSize: 12,
+                cursor: "pointer",
+              }}
+            >
+              {TIME_CONTROLS[id].label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
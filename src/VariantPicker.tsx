@@ -0,0 +1,76 @@
+import { WIN_LENGTH_CHOICES, boardSize } from "./core/variant";
+import type { Variant } from "./types";
+
+type Props = {
+  value: Variant;
+  onChange: (v: Variant) => void;
+};
+
+function choiceStyle(isSel: boolean) {
+  return {
+    height: 36,
+    padding: "0 10px",
+    borderRadius: 12,
+    border: isSel ? "2px solid rgba(99,102,241,0.9)" : "1px solid rgba(17,24,39,0.14)",
+    background: isSel ? "rgba(99,102,241,0.12)" : "white",
+    fontWeight: isSel ? 950 : 700,
+    fontSize: 12,
+    cursor: "pointer",
+  } as const;
+}
+
+/* =========================
+   ルールの変種（盤の大きさ・並べる数・回転の決まり）
+========================= */
+
+export default function VariantPicker({ value, onChange }: Props) {
+  const size = boardSize(value);
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.75 }}>ルール</div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+        {([2, 3] as const).map((quadrants) => (
+          <button
+            key={quadrants}
+            onClick={() =>
+              // 盤を小さくしたら並べる数も盤に収める
+              onChange({ ...value, quadrants, winLength: Math.min(value.winLength, quadrants * 3) })
+            }
+            aria-pressed={value.quadrants === quadrants}
+            style={choiceStyle(value.quadrants === quadrants)}
+          >
+            {quadrants === 2 ? "6×6" : "9×9（XL）"}
+          </button>
+        ))}
+        {WIN_LENGTH_CHOICES.filter((n) => n <= size).map((n) => (
+          <button
+            key={n}
+            onClick={() => onChange({ ...value, winLength: n })}
+            aria-pressed={value.winLength === n}
+            style={choiceStyle(value.winLength === n)}
+          >
+            {n}目
+          </button>
+        ))}
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 12, fontSize: 12 }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+          <input
+            type="checkbox"
+            checked={value.skipRotation}
+            onChange={(e) => onChange({ ...value, skipRotation: e.target.checked })}
+          />
+          空の象限があれば回さなくてよい
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+          <input
+            type="checkbox"
+            checked={value.randomRotation}
+            onChange={(e) => onChange({ ...value, randomRotation: e.target.checked })}
+          />
+          回転はランダム
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { buttonStyle } from "./styles";
+
+// 演出の速さ（1 = AI戦と同じ）
+const SPEEDS = [0.5, 1, 2, 4] as const;
+
+type Props = {
+  paused: boolean;
+  speed: number;
+  // 一時停止中で、次の1手を指させられるとき
+  canStep: boolean;
+  onTogglePause: () => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
+};
+
+/* =========================
+   AI同士の対局の観戦：一時停止・1手ずつ・速さ
+========================= */
+
+export default function WatchBar({ paused, speed, canStep, onTogglePause, onStep, onSpeedChange }: Props) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+      <button onClick={onTogglePause} aria-pressed={paused} style={{ ...buttonStyle, minWidth: 96 }}>
+        {paused ? "▶ 再生" : "⏸ 一時停止"}
+      </button>
+      <button
+        onClick={onStep}
+        disabled={!canStep}
+        style={{ ...buttonStyle, opacity: canStep ? 1 : 0.5, cursor: canStep ? "pointer" : "default" }}
+      >
+        1手進める
+      </button>
+      <div role="group" aria-label="速さ" style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+        <span style={{ fontWeight: 900, opacity: 0.75 }}>速さ</span>
+        {SPEEDS.map((s) => {
+          const isSel = s === speed;
+          return (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              aria-pressed={isSel}
+              style={{
+                ...buttonStyle,
+                height: 34,
+                padding: "0 10px",
+                border: isSel ? "2px solid rgba(99,102,241,0.9)" : "1px solid rgba(17,24,39,0.14)",
+                background: isSel ? "rgba(99,102,241,0.12)" : "white",
+                fontWeight: isSel ? 950 : 700,
+              }}
+            >
+              ×{s}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { CellValue } from "../types";
+import { AI_LEVELS, AI_LEVEL_ORDER, WINDOWS, acceptsDraw, describeSearch, evaluate, searchBestMove } from "./ai";
+import { applyMove, createEmptyBoard, generateMoves } from "./rules";
+import { createTranspositionTable } from "./transposition";
+
+function parse(rows: string[]): CellValue[][] {
+  return rows.map((row) =>
+    row.split("").map((c) => (c === "W" ? "white" : c === "B" ? "black" : null))
+  );
+}
+
+describe("evaluate", () => {
+  it("covers the 32 five-cell windows", () => {
+    expect(WINDOWS).toHaveLength(32);
+    const keys = new Set(WINDOWS.map((w) => w.map((p) => `${p.x},${p.y}`).join(" ")));
+    expect(keys.size).toBe(32);
+  });
+
+  it("is zero-sum between the two players", () => {
+    const b = parse(["WWW...", ".W..B.", "..B...", "...W..", "B.....", ".....B"]);
+    expect(evaluate(b, "white")).not.toBe(0);
+    expect(evaluate(b, "white") + evaluate(b, "black")).toBe(0);
+  });
+
+  it("prefers longer open lines", () => {
+    const three = parse(["WWW...", "......", "......", "......", "......", "......"]);
+    const blocked = parse(["WWB...", "......", "......", "......", "......", "......"]);
+    expect(evaluate(three, "white")).toBeGreaterThan(evaluate(blocked, "white"));
+  });
+
+  it("accepts a draw only when the AI is not ahead", () => {
+    const b = parse(["WWW...", "......", "......", "......", "......", "......"]);
+    expect(acceptsDraw(b, "white")).toBe(false);
+    expect(acceptsDraw(b, "black")).toBe(true);
+  });
+});
+
+describe("searchBestMove", () => {
+  it("takes an immediate win at every level", () => {
+    const b = parse(["WWWW..", "BBB...", "....B.", "......", "......", "......"]);
+    for (const level of ["easy", "expert"] as const) {
+      const r = searchBestMove(b, "white", level);
+      expect(applyMove(b, "white", r.move).winner).toBe("white");
+    }
+  });
+
+  it("stops the opponent's immediate win on normal", () => {
+    const b = parse(["W...W.", "..W...", ".....W", "......", "......", "BBBB.."]);
+    const r = searchBestMove(b, "white", "normal", { random: () => 0.5 });
+    const after = applyMove(b, "white", r.move).board;
+    const blackWins = generateMoves(after).some((m) => applyMove(after, "black", m).winner === "black");
+    expect(blackWins).toBe(false);
+  });
+
+  it("searches fewer nodes with the transposition table", () => {
+    // 定跡にない局面で比べる
+    const b = parse(["W.....", "......", "......", "......", "......", ".....B"]);
+    const plain = searchBestMove(b, "white", "hard", { table: null });
+    const cached = searchBestMove(b, "white", "hard", { table: createTranspositionTable() });
+    expect(cached.depth).toBe(plain.depth);
+    expect(cached.score).toBe(plain.score);
+    expect(cached.nodes).toBeLessThan(plain.nodes);
+  });
+
+  it("searches equivalent moves only once", () => {
+    // 空の盤に1つ置く手は、対称と回転で同じになるものをまとめると6通り
+    const empty = parse(["......", "......", "......", "......", "......", "......"]);
+    expect(searchBestMove(empty, "white", "easy").nodes).toBe(6);
+  });
+
+  it("reports each completed iteration", () => {
+    const b = parse(["W.....", "......", "......", "......", "......", ".....B"]);
+    const depths: number[] = [];
+    const r = searchBestMove(b, "white", "normal", { onIteration: (it) => depths.push(it.depth) });
+    expect(depths[0]).toBe(1);
+    expect(depths[depths.length - 1]).toBe(r.depth);
+    expect(r.nodes).toBeGreaterThan(0);
+  });
+
+  it("plays the opening from the book above easy", () => {
+    const empty = parse(["......", "......", "......", "......", "......", "......"]);
+    const r = searchBestMove(empty, "white", "hard", { random: () => 0.99 });
+    expect(r.book).toBe(true);
+    expect(r.depth).toBe(0);
+    expect(describeSearch(r)).toBe("定跡");
+    // 定跡の初手はどれかの象限の中央
+    expect([1, 4]).toContain(r.move.pos.x);
+    expect([1, 4]).toContain(r.move.pos.y);
+    expect(searchBestMove(empty, "white", "easy").book).toBe(false);
+  });
+
+  it("proves wins and draws near the end", () => {
+    const win = searchBestMove(parse(["WWWW..", "BBB...", "....B.", "......", "......", "......"]), "white", "hard");
+    expect(win.proof).toEqual({ outcome: "win", plies: 1 });
+    expect(describeSearch(win)).toBe("勝ち確定 in 1手");
+
+    // 空きマス4つ：どう指しても5つ並ばない
+    const b = parse(["W.BWWB", "WBWBWW", "BB..BB", "WWBBBB", "BW.WBB", "WWBWWW"]);
+    const draw = searchBestMove(b, "white", "hard", { table: null });
+    expect(draw.depth).toBe(4);
+    expect(draw.proof).toEqual({ outcome: "draw" });
+    expect(describeSearch(draw)).toBe("引き分け確定");
+
+    // easy は読み切らない
+    expect(searchBestMove(b, "white", "easy").proof).toBeNull();
+  });
+
+  it("solves to the end at each level's largest endgame, ignoring the time and node limits", () => {
+    // 空きマスの数ごとの、最後まで読まないと引き分けと分からない局面と手番
+    const endgames: Record<number, { rows: string[]; turn: "white" | "black" }> = {
+      5: { rows: ["WBBBWW", "..BW.B", ".WB.WB", "BWWBWB", "BBWWWW", "BWBWBW"], turn: "black" },
+      7: { rows: ["W.BWW.", "WWW.BW", ".B.WB.", "WBWWBB", "BWWBBW", "BBBBW."], turn: "black" },
+      8: { rows: ["BWW.BB", "WBB.WW", "BBB.W.", "WWW.BW", "W.BB.B", "W.WWBB"], turn: "white" },
+    };
+    for (const level of AI_LEVEL_ORDER) {
+      const { solveEmpty } = AI_LEVELS[level];
+      if (solveEmpty === 0) continue;
+      const { rows, turn } = endgames[solveEmpty];
+      const r = searchBestMove(parse(rows), turn, level, {
+        table: createTranspositionTable(),
+        overrides: { timeMs: 0, nodeLimit: 0 },
+      });
+      expect(r.depth).toBe(solveEmpty);
+      expect(r.proof).toEqual({ outcome: "draw" });
+    }
+  });
+
+  it("searches variants on the plain board", () => {
+    const xl = { quadrants: 3, winLength: 4, skipRotation: false, randomRotation: false } as const;
+    const b = createEmptyBoard(9);
+    b[0][0] = b[0][1] = b[0][2] = "white";
+    b[4][4] = b[5][5] = b[4][5] = "black";
+    const r = searchBestMove(b, "white", "normal", { variant: xl });
+    expect(applyMove(b, "white", r.move, 4).winner).toBe("white");
+
+    // ランダム回転では置き場所を選び、回転は引いた値で返す
+    const random = searchBestMove(b, "white", "easy", { variant: { ...xl, randomRotation: true }, random: () => 0 });
+    expect(random.move.quadrant).toBe(0);
+    expect(b[random.move.pos.y][random.move.pos.x]).toBeNull();
+  });
+});
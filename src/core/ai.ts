@@ -0,0 +1,588 @@
+import type { CellValue, Dir, Grid, Move, Player, Pos, Variant } from "../types";
+import {
+  WINDOW_MASKS,
+  canonical,
+  fromGrid,
+  has,
+  hasFive,
+  hashKey,
+  isFull,
+  place as placeBit,
+  popcount,
+  rotate as rotateBits,
+  sameKey,
+  type Bits,
+  type CanonicalKey,
+} from "./bitboard";
+import { SIZE, WIN_LENGTH, applyMove, generateMoves, opponent } from "./rules";
+import { bookReplies } from "./openingBook";
+import { createTranspositionTable, type TranspositionTable } from "./transposition";
+import { STANDARD_VARIANT, drawRotation } from "./variant";
+
+/* =========================
+   Difficulty
+========================= */
+
+export type AiLevel = "easy" | "normal" | "hard" | "expert";
+
+export type AiLevelConfig = {
+  label: string;
+  // 反復深化の最大深さ（1 = 自分の1手だけ読む）
+  maxDepth: number;
+  // 思考時間と探索ノード数（生成した局面数）の上限。
+  // どちらかを超えたら直前に読み切った深さの手を返す
+  timeMs: number;
+  nodeLimit: number;
+  // ルートの評価値に足すランダム幅（弱いレベルほど大きい）
+  noise: number;
+  // 序盤は定跡（openingBook.ts）から指すか
+  book: boolean;
+  // 空きマスがこの数以下なら終局まで読み切る（0 = 読み切らない）。
+  // 読み切りは時間・ノードの上限で打ち切らないので、どの局面でも上限の時間内に終わる数にする
+  solveEmpty: number;
+};
+
+export const AI_LEVELS: Record<AiLevel, AiLevelConfig> = {
+  easy: { label: "かんたん", maxDepth: 1, timeMs: 300, nodeLimit: 5_000, noise: 120, book: false, solveEmpty: 0 },
+  normal: { label: "ふつう", maxDepth: 2, timeMs: 1000, nodeLimit: 200_000, noise: 6, book: true, solveEmpty: 5 },
+  hard: { label: "むずかしい", maxDepth: 3, timeMs: 2500, nodeLimit: 1_000_000, noise: 0, book: true, solveEmpty: 7 },
+  expert: { label: "エキスパート", maxDepth: 4, timeMs: 5000, nodeLimit: 4_000_000, noise: 0, book: true, solveEmpty: 8 },
+};
+
+export const AI_LEVEL_ORDER: AiLevel[] = ["easy", "normal", "hard", "expert"];
+
+/* =========================
+   Evaluation
+========================= */
+
+// 6×6 盤上の「5マスの並び」全32本（横12・縦12・斜め8）
+export const WINDOWS: Pos[][] = (() => {
+  const dirs = [
+    { dx: 1, dy: 0 },
+    { dx: 0, dy: 1 },
+    { dx: 1, dy: 1 },
+    { dx: 1, dy: -1 },
+  ];
+  const out: Pos[][] = [];
+  for (const { dx, dy } of dirs) {
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const ex = x + dx * 4;
+        const ey = y + dy * 4;
+        if (ex < 0 || ex >= SIZE || ey < 0 || ey >= SIZE) continue;
+        out.push(Array.from({ length: 5 }, (_, k) => ({ x: x + dx * k, y: y + dy * k })));
+      }
+    }
+  }
+  return out;
+})();
+
+// 相手の石が混ざっていない並びだけを数える。index = 並びの中の自分の石数
+const LINE_WEIGHTS = [0, 1, 8, 60, 500];
+
+export const WIN_SCORE = 1_000_000;
+
+// これ以上（以下）なら読み切りの勝ち（負け）。terminalScore は WIN_SCORE - 手数
+export const FORCED_WIN = WIN_SCORE - 100;
+
+// p から見た盤面評価（相手から見た値の符号反転になる）
+export function evaluate(board: Grid, p: Player, winLength: number = WIN_LENGTH): number {
+  if (board.length === SIZE && winLength === WIN_LENGTH) {
+    return evaluateBits(fromGrid(board, p), fromGrid(board, opponent(p)));
+  }
+  return evaluateGrid(board, p, winLength);
+}
+
+function evaluateBits(me: Bits, them: Bits): number {
+  let score = 0;
+  for (const [lo, hi] of WINDOW_MASKS) {
+    const mine = popcount(me[0] & lo) + popcount(me[1] & hi);
+    const theirs = popcount(them[0] & lo) + popcount(them[1] & hi);
+    if (mine > 0 && theirs === 0) score += LINE_WEIGHTS[mine];
+    else if (theirs > 0 && mine === 0) score -= LINE_WEIGHTS[theirs];
+  }
+  return score;
+}
+
+// 引き分けの提案を受けるか：AI から見て形勢が良くなければ受ける
+export function acceptsDraw(board: Grid, ai: Player, winLength: number = WIN_LENGTH): boolean {
+  return evaluate(board, ai, winLength) <= 0;
+}
+
+// 手を指した側から見た決着
+export type Outcome = "win" | "loss" | "draw";
+
+// 勝敗が付いた盤面の、指した側から見た値。ply が浅い勝ちほど高くする
+function terminalScore(outcome: Outcome, ply: number): number {
+  if (outcome === "draw") return 0;
+  return outcome === "win" ? WIN_SCORE - ply : -(WIN_SCORE - ply);
+}
+
+/* =========================
+   Search (negamax + alpha-beta + 置換表)
+========================= */
+
+export type SearchResult = {
+  move: Move;
+  score: number;
+  // 読み切った深さ（定跡の手なら 0）
+  depth: number;
+  nodes: number;
+  timeMs: number;
+  // 読み切れた決着（AI から見た結果。勝ち負けは決着までの手数つき）。読み切れていなければ null
+  proof: Proof | null;
+  // 定跡から選んだ手か
+  book: boolean;
+};
+
+// plies は両者の手を数える（1 = この手で勝つ）
+export type Proof = { outcome: "win" | "loss"; plies: number } | { outcome: "draw" };
+
+export type SearchOptions = {
+  // 深さを1段読み切るたびに呼ばれる
+  onIteration?: (r: SearchResult) => void;
+  random?: () => number;
+  // 置換表（省略時は共有の表。null で使わない）
+  table?: TranspositionTable | null;
+  // ルールの変種（省略時は通常ルール）。ランダム回転では返す手の回転も random で引く
+  variant?: Variant;
+  // レベルの設定を一部だけ変える（AI どうしの対戦で強さを比べる用）
+  overrides?: Partial<AiLevelConfig>;
+};
+
+// 子局面。me / them は指した側から見た石、key / hash は次に指す側から見た正規化済みの局面
+type Child = {
+  cell: number;
+  quadrant: number;
+  dir: Dir;
+  me: Bits;
+  them: Bits;
+  key: CanonicalKey;
+  hash: number;
+  outcome: Outcome | null;
+  order: number;
+};
+
+type SearchContext = {
+  nodes: number;
+  nodeLimit: number;
+  deadline: number;
+  canAbort: boolean;
+  // 終局まで読み切る探索（時間・ノードの上限で止めない）
+  solve: boolean;
+  table: TranspositionTable | null;
+};
+
+class SearchAborted extends Error {}
+
+const DIRS: readonly Dir[] = ["cw", "ccw"];
+
+// 置ける手をすべて試し、結果が同じ形（対称・空の象限の回転など）になる手は 1 つにまとめる
+function children(me: Bits, them: Bits, ply: number): Child[] {
+  const out: Child[] = [];
+  const seen = new Map<number, CanonicalKey[]>();
+  for (let cell = 0; cell < SIZE * SIZE; cell++) {
+    if (has(me, cell) || has(them, cell)) continue;
+    const placed = placeBit(me, cell);
+    for (let quadrant = 0; quadrant < 4; quadrant++) {
+      for (const dir of DIRS) {
+        const m = rotateBits(placed, quadrant, dir);
+        const t = rotateBits(them, quadrant, dir);
+        const key = canonical(t, m);
+        const hash = hashKey(key);
+        const same = seen.get(hash);
+        if (same?.some((k) => sameKey(k, key))) continue;
+        if (same) same.push(key);
+        else seen.set(hash, [key]);
+
+        const mine = hasFive(m);
+        const theirs = hasFive(t);
+        const outcome: Outcome | null =
+          mine && theirs ? "draw" : mine ? "win" : theirs ? "loss" : isFull(m, t) ? "draw" : null;
+        const order = outcome ? terminalScore(outcome, ply) : evaluateBits(m, t);
+        out.push({ cell, quadrant, dir, me: m, them: t, key, hash, outcome, order });
+      }
+    }
+  }
+  out.sort((a, b) => b.order - a.order);
+  return out;
+}
+
+// 読み切りの値は「この局面から何手」に直して置換表に入れる（別の手数で出会っても使えるように）
+function toTable(score: number, ply: number): number {
+  if (score >= FORCED_WIN) return score + ply;
+  if (score <= -FORCED_WIN) return score - ply;
+  return score;
+}
+
+function fromTable(score: number, ply: number): number {
+  if (score >= FORCED_WIN) return score - ply;
+  if (score <= -FORCED_WIN) return score + ply;
+  return score;
+}
+
+function negamax(
+  me: Bits,
+  them: Bits,
+  key: CanonicalKey,
+  hash: number,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  ctx: SearchContext
+): number {
+  if (ctx.canAbort && (ctx.nodes > ctx.nodeLimit || performance.now() > ctx.deadline)) {
+    throw new SearchAborted();
+  }
+
+  const hit = ctx.table?.probe(key, hash);
+  if (hit && hit.depth >= depth) {
+    const score = fromTable(hit.score, ply);
+    if (hit.bound === "exact") return score;
+    if (hit.bound === "lower" && score > alpha) alpha = score;
+    if (hit.bound === "upper" && score < beta) beta = score;
+    if (alpha >= beta) return score;
+  }
+  const alphaStart = alpha;
+
+  // 子ノードは並べ替え用に評価済みなので、残り1手ならその値をそのまま使う
+  const list = children(me, them, ply + 1);
+  ctx.nodes += list.length;
+  if (list.length === 0) return 0;
+
+  let best = -Infinity;
+  if (depth === 1) {
+    best = list[0].order;
+  } else {
+    for (const c of list) {
+      const score = c.outcome
+        ? c.order
+        : -negamax(c.them, c.me, c.key, c.hash, depth - 1, -beta, -alpha, ply + 1, ctx);
+      if (score > best) best = score;
+      if (best > alpha) alpha = best;
+      if (alpha >= beta) break;
+    }
+  }
+
+  const bound = depth === 1 ? "exact" : best <= alphaStart ? "upper" : best >= beta ? "lower" : "exact";
+  ctx.table?.store(key, hash, { depth, score: toTable(best, ply), bound });
+  return best;
+}
+
+// 探索をまたいで使い回す置換表（Worker ごとに 1 つ）
+let sharedTable: TranspositionTable | null = null;
+
+function defaultTable(): TranspositionTable {
+  if (!sharedTable) sharedTable = createTranspositionTable();
+  return sharedTable;
+}
+
+// ビットボードで読めるのは 6×6・5つ並びで、回転を選べるルールだけ
+function usesBitboard(v: Variant): boolean {
+  return v.quadrants === 2 && v.winLength === WIN_LENGTH && !v.randomRotation;
+}
+
+export function searchBestMove(
+  board: Grid,
+  p: Player,
+  level: AiLevel,
+  options: SearchOptions = {}
+): SearchResult {
+  const cfg = { ...AI_LEVELS[level], ...options.overrides };
+  const variant = options.variant ?? STANDARD_VARIANT;
+  const random = options.random ?? Math.random;
+  const start = performance.now();
+  const ctx: SearchContext = {
+    nodes: 0,
+    nodeLimit: cfg.nodeLimit,
+    deadline: start + cfg.timeMs,
+    canAbort: false,
+    solve: false,
+    table: options.table === undefined ? defaultTable() : options.table,
+  };
+
+  // 空きマスの数だけ読めば、すべての枝が決着まで届く
+  const empty = board.reduce((n, row) => n + row.filter((c) => c === null).length, 0);
+
+  if (usesBitboard(variant)) {
+    const me = fromGrid(board, p);
+    const root = children(me, fromGrid(board, opponent(p)), 1);
+    const moveOf = (c: Child): Move => ({
+      pos: { x: c.cell % SIZE, y: Math.floor(c.cell / SIZE) },
+      quadrant: c.quadrant,
+      dir: c.dir,
+    });
+
+    const replies = cfg.book ? bookReplies(me, fromGrid(board, opponent(p))) : [];
+    const book = root.filter((c) => replies.some((k) => sameKey(k, c.key)));
+    if (book.length > 0) {
+      const c = book[Math.min(book.length - 1, Math.floor(random() * book.length))];
+      const timeMs = Math.round(performance.now() - start);
+      return { move: moveOf(c), score: c.order, depth: 0, nodes: root.length, timeMs, proof: null, book: true };
+    }
+
+    // 終盤は終局まで読み切る
+    ctx.solve = empty <= cfg.solveEmpty;
+    const maxDepth = ctx.solve ? Math.max(cfg.maxDepth, empty) : cfg.maxDepth;
+    return iterate(root, { ...cfg, maxDepth }, ctx, start, random, options, {
+      moveOf,
+      orderOf: (c) => c.order,
+      scoreAt: (c, depth, beta) =>
+        c.outcome || depth === 1 ? c.order : -negamax(c.them, c.me, c.key, c.hash, depth - 1, -Infinity, beta, 1, ctx),
+      endDepth: empty,
+    });
+  }
+
+  const root = gridChoices(board, p, variant, 1);
+  const result = iterate(root, cfg, ctx, start, random, options, {
+    moveOf: (c) => c.move,
+    orderOf: (c) => c.order,
+    scoreAt: (c, depth, beta) => choiceScore(c, opponent(p), depth, -Infinity, beta, 0, ctx, variant),
+    // ランダム回転の期待値 0 は引き分けの証明にならない
+    endDepth: variant.randomRotation ? Infinity : empty,
+  });
+  // ランダム回転では AI が選んだのは置き場所だけ。回転はここで引いて指せる手にする
+  if (!variant.randomRotation) return result;
+  return { ...result, move: { pos: result.move.pos, ...drawRotation(variant, random) } };
+}
+
+type RootSearch<C> = {
+  moveOf: (c: C) => Move;
+  // 並べ替え用の評価値（手を指した側から見た値）
+  orderOf: (c: C) => number;
+  // depth まで読んだ値。beta は子から見た β（ルートの α を超えない手は途中で打ち切ってよい）
+  scoreAt: (c: C, depth: number, beta: number) => number;
+  // この深さまで読めば終局まで読み切ったことになる
+  endDepth: number;
+};
+
+// 読んだ値から分かる決着。勝ち・負けの値は読み切りのときしか出ない。引き分けは終局まで読めたときだけ
+function proofOf(score: number, complete: boolean): Proof | null {
+  if (score >= FORCED_WIN) return { outcome: "win", plies: WIN_SCORE - score };
+  if (score <= -FORCED_WIN) return { outcome: "loss", plies: WIN_SCORE + score };
+  return complete && score === 0 ? { outcome: "draw" } : null;
+}
+
+// 反復深化。深さごとにルートの手を並べ替え直し、読み切れた最後の深さの結果を返す
+function iterate<C>(
+  root: C[],
+  cfg: AiLevelConfig,
+  ctx: SearchContext,
+  start: number,
+  random: () => number,
+  options: SearchOptions,
+  search: RootSearch<C>
+): SearchResult {
+  if (root.length === 0) throw new Error("no legal moves");
+  ctx.nodes = root.length;
+
+  // 即勝ちは読むまでもない
+  const first = search.orderOf(root[0]);
+  if (first >= FORCED_WIN) {
+    const proof = proofOf(first, true);
+    return { move: search.moveOf(root[0]), score: first, depth: 1, nodes: root.length, timeMs: 0, proof, book: false };
+  }
+
+  // ルートのノイズは最初に一度だけ決める（深さごとに手がぶれないように）
+  let ordered = root.map((c) => ({ c, noise: cfg.noise > 0 ? (random() - 0.5) * cfg.noise : 0 }));
+  let result: SearchResult | null = null;
+
+  for (let depth = 1; depth <= cfg.maxDepth; depth++) {
+    // 深さ1は必ず読み切る（最低限の手を保証する）。終盤の読み切りは最後まで止めない
+    ctx.canAbort = depth > 1 && !ctx.solve;
+    const scored: { r: (typeof ordered)[number]; score: number; raw: number }[] = [];
+    let alpha = -Infinity;
+
+    try {
+      for (const r of ordered) {
+        const raw = search.scoreAt(r.c, depth, r.noise - alpha);
+        const score = raw + r.noise;
+        scored.push({ r, score, raw });
+        if (score > alpha) alpha = score;
+      }
+    } catch (e) {
+      if (e instanceof SearchAborted) break;
+      throw e;
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    ordered = scored.map((s) => s.r);
+    result = {
+      move: search.moveOf(scored[0].r.c),
+      score: Math.round(scored[0].score),
+      depth,
+      nodes: ctx.nodes,
+      timeMs: Math.round(performance.now() - start),
+      proof: proofOf(scored[0].raw, depth >= search.endDepth),
+      book: false,
+    };
+    options.onIteration?.(result);
+
+    // 勝ち／負けが読み切れたらそれ以上深く読んでも変わらない
+    if (Math.abs(result.score) >= FORCED_WIN) break;
+  }
+
+  // 深さ1は中断しないので必ず結果がある
+  if (!result) throw new Error("search produced no result");
+  return result;
+}
+
+/* =========================
+   Search for variants（9×9・並べる数の違い・ランダム回転）
+   ビットボードは 6×6・5つ並び専用なので、変種は盤面の配列のまま読む（置換表は使わない）
+========================= */
+
+// 盤の大きさと並べる数ごとの並び
+const gridLines = new Map<string, Pos[][]>();
+
+function linesFor(size: number, length: number): Pos[][] {
+  const cacheKey = `${size}/${length}`;
+  const cached = gridLines.get(cacheKey);
+  if (cached) return cached;
+
+  const out: Pos[][] = [];
+  for (const [dx, dy] of [
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [1, -1],
+  ]) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const ex = x + dx * (length - 1);
+        const ey = y + dy * (length - 1);
+        if (ex < 0 || ex >= size || ey < 0 || ey >= size) continue;
+        out.push(Array.from({ length }, (_, k) => ({ x: x + dx * k, y: y + dy * k })));
+      }
+    }
+  }
+  gridLines.set(cacheKey, out);
+  return out;
+}
+
+// index = 並びにあと何個足りないか（5つ並びなら LINE_WEIGHTS と同じ値になる）
+const MISSING_WEIGHTS = [0, 500, 60, 8, 1];
+
+function evaluateGrid(board: Grid, p: Player, winLength: number): number {
+  let score = 0;
+  for (const line of linesFor(board.length, winLength)) {
+    let mine = 0;
+    let theirs = 0;
+    for (const { x, y } of line) {
+      const c = board[y][x];
+      if (c === p) mine++;
+      else if (c !== null) theirs++;
+    }
+    if (mine > 0 && theirs === 0) score += MISSING_WEIGHTS[winLength - mine] ?? 0;
+    else if (theirs > 0 && mine === 0) score -= MISSING_WEIGHTS[winLength - theirs] ?? 0;
+  }
+  return score;
+}
+
+// 手を指した後の盤。outcome / order は指した側から見た値
+type GridResult = { board: CellValue[][]; outcome: Outcome | null; order: number };
+
+// 選べる手。ランダム回転では置き場所だけを選び、回転の結果（results）はすべて同じ確率で起こる
+type GridChoice = { move: Move; results: GridResult[]; order: number };
+
+function gridChoices(board: Grid, p: Player, variant: Variant, ply: number): GridChoice[] {
+  const byPos = new Map<number, GridChoice>();
+  const out: GridChoice[] = [];
+  // 回転を選べるときは、結果が同じ盤になる手（空の象限の回転など）を 1 つにまとめる
+  const seen = new Set<string>();
+
+  for (const move of generateMoves(board)) {
+    const r = applyMove(board, p, move, variant.winLength);
+    const outcome: Outcome | null =
+      r.winner === null ? null : r.winner === "draw" ? "draw" : r.winner === p ? "win" : "loss";
+    const result = {
+      board: r.board,
+      outcome,
+      order: outcome ? terminalScore(outcome, ply) : evaluateGrid(r.board, p, variant.winLength),
+    };
+
+    if (variant.randomRotation) {
+      const cell = move.pos.y * board.length + move.pos.x;
+      const choice = byPos.get(cell);
+      if (choice) choice.results.push(result);
+      else byPos.set(cell, { move, results: [result], order: 0 });
+      continue;
+    }
+    const key = r.board.map((row) => row.map((c) => (c ? c[0] : ".")).join("")).join("");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ move, results: [result], order: result.order });
+  }
+
+  for (const choice of byPos.values()) {
+    choice.order = choice.results.reduce((sum, r) => sum + r.order, 0) / choice.results.length;
+    out.push(choice);
+  }
+  out.sort((a, b) => b.order - a.order);
+  return out;
+}
+
+// 手を選んだ側から見た値。ランダム回転の期待値は枝刈りせずに全部読む
+function choiceScore(
+  c: GridChoice,
+  next: Player,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  ctx: SearchContext,
+  variant: Variant
+): number {
+  if (depth === 1) return c.order;
+  if (c.results.length === 1) {
+    const r = c.results[0];
+    return r.outcome ? r.order : -gridNegamax(r.board, next, depth - 1, -beta, -alpha, ply + 1, ctx, variant);
+  }
+  let sum = 0;
+  for (const r of c.results) {
+    sum += r.outcome ? r.order : -gridNegamax(r.board, next, depth - 1, -Infinity, Infinity, ply + 1, ctx, variant);
+  }
+  return sum / c.results.length;
+}
+
+function gridNegamax(
+  board: Grid,
+  p: Player,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  ctx: SearchContext,
+  variant: Variant
+): number {
+  if (ctx.canAbort && (ctx.nodes > ctx.nodeLimit || performance.now() > ctx.deadline)) {
+    throw new SearchAborted();
+  }
+
+  const list = gridChoices(board, p, variant, ply + 1);
+  for (const c of list) ctx.nodes += c.results.length;
+  if (list.length === 0) return 0;
+  if (depth === 1) return list[0].order;
+
+  let best = -Infinity;
+  for (const c of list) {
+    const score = choiceScore(c, opponent(p), depth, alpha, beta, ply, ctx, variant);
+    if (score > best) best = score;
+    if (best > alpha) alpha = best;
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+// AI の読みのひとこと（ログ用）。定跡でも読み切りでもなければ null
+export function describeSearch(r: SearchResult): string | null {
+  if (r.book) return "定跡";
+  if (!r.proof) return null;
+  if (r.proof.outcome === "draw") return "引き分け確定";
+  return `${r.proof.outcome === "win" ? "勝ち" : "負け"}確定 in ${r.proof.plies}手`;
+}
+
+export function chooseAiMove(board: Grid, ai: Player, level: AiLevel): Move {
+  return searchBestMove(board, ai, level).move;
+}
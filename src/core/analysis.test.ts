@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { WIN_SCORE, searchBestMove } from "./ai";
+import {
+  ANALYSIS_LEVEL,
+  ANALYSIS_OVERRIDES,
+  classifyMove,
+  finalEval,
+  formatEval,
+  graphValue,
+  reviewMoves,
+  toWhiteScore,
+  type PositionEval,
+} from "./analysis";
+import type { MoveRecord } from "./history";
+import { parseMove } from "./notation";
+import { createGame, playMove } from "./rules";
+
+const ev = (score: number): PositionEval => ({ score, best: null, depth: 3 });
+const rec = (player: MoveRecord["player"]): MoveRecord => ({ player, pos: { x: 0, y: 0 }, quadrant: 0, dir: "cw" });
+
+describe("analysis", () => {
+  it("flags a missed forced win and a forced win handed to the opponent", () => {
+    const whiteWins = ev(WIN_SCORE - 3);
+    const blackWins = ev(-(WIN_SCORE - 2));
+    expect(classifyMove("white", whiteWins, ev(40))).toBe("missedWin");
+    expect(classifyMove("white", ev(40), blackWins)).toBe("allowedWin");
+    expect(classifyMove("white", ev(40), ev(-300))).toBeNull();
+    // もともと負けている局面で負けのまま指しても印は付けない
+    expect(classifyMove("black", whiteWins, ev(WIN_SCORE - 1))).toBeNull();
+    // 勝ちを決めた手
+    expect(classifyMove("white", whiteWins, finalEval({ winner: "white", reason: "five" }))).toBeNull();
+  });
+
+  it("pairs each move with the positions around it", () => {
+    const moves = [rec("white"), rec("black"), rec("white")];
+    const reviews = reviewMoves(moves, [ev(0), ev(20), ev(WIN_SCORE - 1)]);
+    expect(reviews).toHaveLength(2);
+    expect(reviews[1].flag).toBe("allowedWin");
+  });
+
+  it("converts and formats scores from white's point of view", () => {
+    expect(toWhiteScore(150, "black")).toBe(-150);
+    expect(formatEval(120)).toBe("+120");
+    expect(formatEval(-(WIN_SCORE - 3))).toBe("黒の勝ち（3手）");
+    expect(formatEval(WIN_SCORE)).toBe("白の勝ち");
+    expect(graphValue(WIN_SCORE - 5)).toBe(1);
+    expect(Math.abs(graphValue(500))).toBeLessThan(1);
+  });
+
+  it("reads opening positions instead of taking book moves", () => {
+    // 定跡に載っている局面
+    const s = playMove(createGame(), parseMove("b2 1R"));
+    expect(searchBestMove(s.board, s.turn, ANALYSIS_LEVEL).book).toBe(true);
+    const r = searchBestMove(s.board, s.turn, ANALYSIS_LEVEL, { overrides: ANALYSIS_OVERRIDES });
+    expect(r.book).toBe(false);
+    expect(r.depth).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,88 @@
+import type { GameResult, Move, Player } from "../types";
+import { FORCED_WIN, WIN_SCORE, type AiLevel, type AiLevelConfig } from "./ai";
+import type { MoveRecord } from "./history";
+
+/*
+  終局後の振り返り。各局面の評価値（白から見た値）を並べ、
+  読み切った勝ちを逃した手・相手に読み切りの勝ちを許した手に印を付ける。
+  探索そのものは AI Worker に任せ、ここでは結果の解釈だけをする。
+*/
+
+// 1局面ずつ読むので、時間の上限がある「むずかしい」で読む
+export const ANALYSIS_LEVEL: AiLevel = "hard";
+// 定跡の手には読んだ評価値がないので、序盤も定跡を使わずに読む
+export const ANALYSIS_OVERRIDES: Partial<AiLevelConfig> = { book: false };
+
+export type PositionEval = {
+  // 白から見た評価値（±WIN_SCORE 付近は読み切りの勝ち負け）
+  score: number;
+  // 手番側の最善手（終局した局面なら null）
+  best: Move | null;
+  depth: number;
+};
+
+// missedWin : 読み切りの勝ちがあったのに逃した
+// allowedWin: それまで負けではなかったのに、相手に読み切りの勝ちを与えた
+export type MoveFlag = "missedWin" | "allowedWin";
+
+export type MoveReview = {
+  move: MoveRecord;
+  before: PositionEval;
+  after: PositionEval;
+  flag: MoveFlag | null;
+};
+
+// side から見た評価値を白から見た値にする
+export function toWhiteScore(score: number, side: Player): number {
+  return side === "white" ? score : -score;
+}
+
+// 終局した局面の評価値
+export function finalEval(result: GameResult): PositionEval {
+  const score = result.winner === "white" ? WIN_SCORE : result.winner === "black" ? -WIN_SCORE : 0;
+  return { score, best: null, depth: 0 };
+}
+
+// 白から見た score で、p に読み切りの勝ちがあるか
+export function isForcedWinFor(score: number, p: Player): boolean {
+  return toWhiteScore(score, p) >= FORCED_WIN;
+}
+
+// 勝ちまでの手数（読み切りでなければ null）
+export function pliesToWin(score: number): number | null {
+  return Math.abs(score) >= FORCED_WIN ? WIN_SCORE - Math.abs(score) : null;
+}
+
+export function classifyMove(player: Player, before: PositionEval, after: PositionEval): MoveFlag | null {
+  const other: Player = player === "white" ? "black" : "white";
+  if (isForcedWinFor(before.score, player) && !isForcedWinFor(after.score, player)) return "missedWin";
+  if (!isForcedWinFor(before.score, other) && isForcedWinFor(after.score, other)) return "allowedWin";
+  return null;
+}
+
+// evals[i] は i 手目の後の局面（evals[0] は開始局面）。揃っている分だけ返す
+export function reviewMoves(moves: readonly MoveRecord[], evals: readonly PositionEval[]): MoveReview[] {
+  const out: MoveReview[] = [];
+  for (let i = 0; i < moves.length && i + 1 < evals.length; i++) {
+    const before = evals[i];
+    const after = evals[i + 1];
+    out.push({ move: moves[i], before, after, flag: classifyMove(moves[i].player, before, after) });
+  }
+  return out;
+}
+
+// グラフ用に -1〜1 へ縮める（読み切りは端に張り付く）
+export function graphValue(score: number): number {
+  if (Math.abs(score) >= FORCED_WIN) return Math.sign(score);
+  return Math.tanh(score / 400);
+}
+
+// 表示用：「+120」「白の勝ち（3手）」など
+export function formatEval(score: number): string {
+  const plies = pliesToWin(score);
+  if (plies !== null) {
+    const name = score > 0 ? "白" : "黒";
+    return plies === 0 ? `${name}の勝ち` : `${name}の勝ち（${plies}手）`;
+  }
+  return score > 0 ? `+${score}` : String(score);
+}
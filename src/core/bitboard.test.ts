@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { CellValue, Grid } from "../types";
+import { canonical, fromGrid, hasFive, hashKey, rotate, toGrid } from "./bitboard";
+import { hasFive as gridHasFive, rotateQuadrant } from "./rules";
+import { createTranspositionTable } from "./transposition";
+
+function parse(rows: string[]): CellValue[][] {
+  return rows.map((row) => row.split("").map((c) => (c === "W" ? "white" : c === "B" ? "black" : null)));
+}
+
+const sample = parse(["WB.W..", ".WB...", "B..W.B", "...BW.", "W.B...", "..W..B"]);
+
+// 盤面を左右反転・90度回転したもの
+const mirror = (b: Grid) => b.map((row) => row.slice().reverse());
+const turn90 = (b: Grid) => b.map((row, y) => row.map((_, x) => b[5 - x][y]));
+
+describe("bitboard", () => {
+  it("round-trips a grid and rotates quadrants like the rules do", () => {
+    const w = fromGrid(sample, "white");
+    const b = fromGrid(sample, "black");
+    expect(toGrid(w, b)).toEqual(sample);
+    for (let q = 0; q < 4; q++) {
+      for (const dir of ["cw", "ccw"] as const) {
+        expect(toGrid(rotate(w, q, dir), rotate(b, q, dir))).toEqual(rotateQuadrant(sample, q, dir));
+      }
+    }
+  });
+
+  it("detects five in a row", () => {
+    const b = parse(["......", ".W....", "..W...", "...W..", "....W.", ".....W"]);
+    expect(hasFive(fromGrid(b, "white"))).toBe(gridHasFive(b, "white"));
+    expect(hasFive(fromGrid(sample, "white"))).toBe(false);
+  });
+
+  it("gives the same key to symmetric positions", () => {
+    const key = (g: Grid) => canonical(fromGrid(g, "white"), fromGrid(g, "black"));
+    const k = key(sample);
+    expect(key(mirror(sample))).toEqual(k);
+    expect(key(turn90(sample))).toEqual(k);
+    expect(key(turn90(mirror(sample)))).toEqual(k);
+    expect(hashKey(key(turn90(sample)))).toBe(hashKey(k));
+    // 石の色を入れ替えたら（手番側が変われば）別の局面
+    expect(canonical(fromGrid(sample, "black"), fromGrid(sample, "white"))).not.toEqual(k);
+  });
+});
+
+describe("transposition table", () => {
+  it("returns entries only for the same position", () => {
+    const table = createTranspositionTable(4);
+    const key = canonical(fromGrid(sample, "white"), fromGrid(sample, "black"));
+    const other = canonical(fromGrid(sample, "black"), fromGrid(sample, "white"));
+    table.store(key, 3, { depth: 2, score: 40, bound: "exact" });
+    expect(table.probe(key, 3)).toEqual({ depth: 2, score: 40, bound: "exact" });
+    // 同じ場所に来ても別の局面なら使わない
+    expect(table.probe(other, 3)).toBeNull();
+    // 浅い読みでは深い読みを追い出さない
+    table.store(other, 3, { depth: 1, score: -5, bound: "lower" });
+    expect(table.probe(key, 3)?.depth).toBe(2);
+    table.clear();
+    expect(table.size()).toBe(0);
+  });
+});
@@ -0,0 +1,254 @@
+import type { CellValue, Dir, Grid, Player } from "../types";
+import { SIZE } from "./rules";
+
+/*
+  探索用のビットボード。
+  1人分の石を 36 ビットで表し、JS のビット演算（32ビット）に収まるよう
+  lo = 象限0・1、hi = 象限2・3 の 18 ビットずつに分ける。
+  各象限は 9 ビット（象限内の y*3+x 番目のビット）で、回転は 512 通りの表引きで済む。
+  盤面の対称（回転・鏡映の 8 通り）と、手番側から見た石（me / them）で正規化して
+  同じ形の局面を 1 つにまとめる。
+*/
+
+export type Bits = readonly [lo: number, hi: number];
+
+export const EMPTY: Bits = [0, 0];
+
+const HALF_FULL = (1 << 18) - 1;
+
+// セル (x, y) → [どちらの半分か, ビット位置]
+function cellBit(x: number, y: number): [half: 0 | 1, bit: number] {
+  const q = (y < 3 ? 0 : 2) + (x < 3 ? 0 : 1);
+  return [q < 2 ? 0 : 1, (q % 2) * 9 + (y % 3) * 3 + (x % 3)];
+}
+
+export function cellIndex(x: number, y: number): number {
+  return y * SIZE + x;
+}
+
+// cellIndex → ビット（置く手の高速化用）
+const CELL_LO: number[] = [];
+const CELL_HI: number[] = [];
+for (let y = 0; y < SIZE; y++) {
+  for (let x = 0; x < SIZE; x++) {
+    const [half, bit] = cellBit(x, y);
+    CELL_LO.push(half === 0 ? 1 << bit : 0);
+    CELL_HI.push(half === 1 ? 1 << bit : 0);
+  }
+}
+
+export function fromGrid(board: Grid, p: Player): Bits {
+  let lo = 0;
+  let hi = 0;
+  for (let i = 0; i < SIZE * SIZE; i++) {
+    if (board[Math.floor(i / SIZE)][i % SIZE] !== p) continue;
+    lo |= CELL_LO[i];
+    hi |= CELL_HI[i];
+  }
+  return [lo, hi];
+}
+
+export function toGrid(white: Bits, black: Bits): CellValue[][] {
+  return Array.from({ length: SIZE }, (_, y) =>
+    Array.from({ length: SIZE }, (_, x) => {
+      const i = cellIndex(x, y);
+      if (has(white, i)) return "white";
+      if (has(black, i)) return "black";
+      return null;
+    })
+  );
+}
+
+export function has(b: Bits, cell: number): boolean {
+  return ((b[0] & CELL_LO[cell]) | (b[1] & CELL_HI[cell])) !== 0;
+}
+
+export function place(b: Bits, cell: number): Bits {
+  return [b[0] | CELL_LO[cell], b[1] | CELL_HI[cell]];
+}
+
+export function isFull(a: Bits, b: Bits): boolean {
+  return (a[0] | b[0]) === HALF_FULL && (a[1] | b[1]) === HALF_FULL;
+}
+
+/* =========================
+   Quadrant rotation
+========================= */
+
+function quadrantMask(b: Bits, q: number): number {
+  const half = q < 2 ? b[0] : b[1];
+  return q % 2 === 0 ? half & 511 : half >>> 9;
+}
+
+function withQuadrant(b: Bits, q: number, mask: number): Bits {
+  const shift = (q % 2) * 9;
+  const keep = ~(511 << shift);
+  return q < 2 ? [(b[0] & keep) | (mask << shift), b[1]] : [b[0], (b[1] & keep) | (mask << shift)];
+}
+
+// 9 ビットの象限 mask を、3×3 の座標変換 f で並べ替える表
+function permutationTable(f: (x: number, y: number) => [number, number]): Uint16Array {
+  const table = new Uint16Array(512);
+  for (let m = 0; m < 512; m++) {
+    let out = 0;
+    for (let i = 0; i < 9; i++) {
+      if (!(m & (1 << i))) continue;
+      const [x, y] = f(i % 3, Math.floor(i / 3));
+      out |= 1 << (y * 3 + x);
+    }
+    table[m] = out;
+  }
+  return table;
+}
+
+// rules.ts の rotateQuadrant と同じ向き
+const ROTATE_CW = permutationTable((x, y) => [2 - y, x]);
+const ROTATE_CCW = permutationTable((x, y) => [y, 2 - x]);
+
+export function rotate(b: Bits, q: number, dir: Dir): Bits {
+  const m = quadrantMask(b, q);
+  if (m === 0) return b;
+  return withQuadrant(b, q, (dir === "cw" ? ROTATE_CW : ROTATE_CCW)[m]);
+}
+
+/* =========================
+   Lines
+========================= */
+
+// 5マスの並び 32 本（ai.ts の WINDOWS と同じ順）
+export const WINDOW_MASKS: readonly Bits[] = (() => {
+  const dirs = [
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [1, -1],
+  ];
+  const out: Bits[] = [];
+  for (const [dx, dy] of dirs) {
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const ex = x + dx * 4;
+        const ey = y + dy * 4;
+        if (ex < 0 || ex >= SIZE || ey < 0 || ey >= SIZE) continue;
+        let w: Bits = EMPTY;
+        for (let k = 0; k < 5; k++) w = place(w, cellIndex(x + dx * k, y + dy * k));
+        out.push(w);
+      }
+    }
+  }
+  return out;
+})();
+
+export function hasFive(b: Bits): boolean {
+  for (const [lo, hi] of WINDOW_MASKS) {
+    if ((b[0] & lo) === lo && (b[1] & hi) === hi) return true;
+  }
+  return false;
+}
+
+export function popcount(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/* =========================
+   Symmetry & hashing
+========================= */
+
+// 6×6 盤の対称 8 通り（恒等・90/180/270度回転・4種の鏡映）
+const BOARD_SYMMETRIES: ((x: number, y: number) => [number, number])[] = [
+  (x, y) => [x, y],
+  (x, y) => [5 - y, x],
+  (x, y) => [5 - x, 5 - y],
+  (x, y) => [y, 5 - x],
+  (x, y) => [5 - x, y],
+  (x, y) => [x, 5 - y],
+  (x, y) => [y, x],
+  (x, y) => [5 - y, 5 - x],
+];
+
+// 対称ごとに、象限 q の中身が移る先（lo/hi のどちらの何ビット目からか）と象限内の並べ替え表
+type QuadrantMap = { half: 0 | 1; shift: number; table: Uint16Array }[];
+
+const SYMMETRY_MAPS: QuadrantMap[] = BOARD_SYMMETRIES.map((f) =>
+  [0, 1, 2, 3].map((q) => {
+    const ox = q % 2 === 0 ? 0 : 3;
+    const oy = q < 2 ? 0 : 3;
+    const [cx, cy] = f(ox + 1, oy + 1);
+    const table = permutationTable((x, y) => {
+      const [tx, ty] = f(ox + x, oy + y);
+      return [tx % 3, ty % 3];
+    });
+    return { half: cy < 3 ? 0 : 1, shift: cx < 3 ? 0 : 9, table };
+  })
+);
+
+// 対称をすべて試し、手番側・相手側の石を並べた値が最小になる形を代表にする
+export type CanonicalKey = readonly [meLo: number, meHi: number, themLo: number, themHi: number];
+
+export function canonical(me: Bits, them: Bits): CanonicalKey {
+  const src = [me[0] & 511, me[0] >>> 9, me[1] & 511, me[1] >>> 9];
+  const srcThem = [them[0] & 511, them[0] >>> 9, them[1] & 511, them[1] >>> 9];
+  // 0 番目は恒等変換なので、そのままの並びから始める
+  let best: CanonicalKey = [me[0], me[1], them[0], them[1]];
+  const key = [0, 0, 0, 0];
+  for (let s = 1; s < SYMMETRY_MAPS.length; s++) {
+    key.fill(0);
+    for (let q = 0; q < 4; q++) {
+      const { half, shift, table } = SYMMETRY_MAPS[s][q];
+      key[half] |= table[src[q]] << shift;
+      key[2 + half] |= table[srcThem[q]] << shift;
+    }
+    if (compareKeys(key, best) < 0) best = [key[0], key[1], key[2], key[3]];
+  }
+  return best;
+}
+
+function compareKeys(a: readonly number[], b: readonly number[]): number {
+  for (let i = 0; i < 4; i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return 0;
+}
+
+export function sameKey(a: CanonicalKey, b: CanonicalKey): boolean {
+  return compareKeys(a, b) === 0;
+}
+
+// 固定シードの疑似乱数（毎回同じ Zobrist 表を作るため）。32 ビットの符号なし整数を返す
+export function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+// Zobrist 表：[me/them][象限][9ビットの石の並び] → 乱数（セルごとの乱数の XOR）
+const ZOBRIST: Uint32Array[][] = (() => {
+  const random = mulberry32(0x5e7a90);
+  return [0, 1].map(() =>
+    [0, 1, 2, 3].map(() => {
+      const cells = Array.from({ length: 9 }, () => random());
+      const table = new Uint32Array(512);
+      for (let m = 1; m < 512; m++) {
+        const low = m & -m;
+        table[m] = table[m ^ low] ^ cells[31 - Math.clz32(low)];
+      }
+      return table;
+    })
+  );
+})();
+
+// 正規化済みの局面の Zobrist ハッシュ（32 ビット）
+export function hashKey(key: CanonicalKey): number {
+  let h = 0;
+  for (let side = 0; side < 2; side++) {
+    const lo = key[side * 2];
+    const hi = key[side * 2 + 1];
+    const t = ZOBRIST[side];
+    h ^= t[0][lo & 511] ^ t[1][lo >>> 9] ^ t[2][hi & 511] ^ t[3][hi >>> 9];
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { checkFlag, completeMove, createClock, formatClock, pauseClock, startClock, timeLeft } from "./clock";
+
+describe("clock", () => {
+  it("runs only for the side to move and adds the increment", () => {
+    let c = createClock({ kind: "fischer", baseMs: 60_000, incrementMs: 2000 });
+    c = startClock(c, "white", 1000);
+    expect(timeLeft(c, "white", 11_000).main).toBe(50_000);
+    expect(timeLeft(c, "black", 11_000).main).toBe(60_000);
+
+    c = completeMove(c, 11_000);
+    expect(c.running).toBeNull();
+    expect(c.main.white).toBe(52_000);
+
+    c = startClock(c, "black", 12_000);
+    expect(timeLeft(c, "black", 15_000).main).toBe(57_000);
+  });
+
+  it("does not count paused time", () => {
+    let c = startClock(createClock({ kind: "fischer", baseMs: 10_000, incrementMs: 0 }), "white", 0);
+    c = pauseClock(c, 4000);
+    c = startClock(c, "white", 9000);
+    expect(timeLeft(c, "white", 10_000).main).toBe(5000);
+  });
+
+  it("falls into byoyomi and resets the period after each move", () => {
+    let c = startClock(createClock({ kind: "byoyomi", baseMs: 5000, periodMs: 10_000 }), "white", 0);
+    expect(timeLeft(c, "white", 8000)).toEqual({ main: 0, period: 7000 });
+
+    c = completeMove(c, 8000);
+    expect(c.period.white).toBe(10_000);
+    expect(c.flagged).toBeNull();
+
+    c = startClock(c, "white", 9000);
+    expect(checkFlag(c, 18_999).flagged).toBeNull();
+    const flagged = checkFlag(c, 19_000);
+    expect(flagged.flagged).toBe("white");
+    expect(flagged.running).toBeNull();
+    // 時間切れの後は動かない
+    expect(startClock(flagged, "black", 20_000).running).toBeNull();
+  });
+
+  it("flags a fischer clock at zero", () => {
+    const c = startClock(createClock({ kind: "fischer", baseMs: 3000, incrementMs: 1000 }), "black", 0);
+    expect(checkFlag(c, 2999).flagged).toBeNull();
+    expect(completeMove(c, 3500).flagged).toBe("black");
+  });
+
+  it("formats minutes and the last minute with tenths", () => {
+    expect(formatClock(185_000)).toBe("3:05");
+    expect(formatClock(9_870)).toBe("9.8");
+    expect(formatClock(-5)).toBe("0.0");
+  });
+});
@@ -0,0 +1,115 @@
+import type { Player } from "../types";
+
+/* =========================
+   Time controls
+========================= */
+
+// fischer : 持ち時間＋1手ごとの加算（increment）
+// byoyomi : 持ち時間を使い切ったら、1手 periodMs 以内に指す（指すたびに戻る）
+export type TimeControl =
+  | { kind: "fischer"; baseMs: number; incrementMs: number }
+  | { kind: "byoyomi"; baseMs: number; periodMs: number };
+
+export type TimeControlId = "none" | "3+2" | "10+5" | "5+byo30" | "byo30";
+
+export const TIME_CONTROLS: Record<TimeControlId, { label: string; control: TimeControl | null }> = {
+  none: { label: "なし", control: null },
+  "3+2": { label: "3分＋2秒", control: { kind: "fischer", baseMs: 3 * 60_000, incrementMs: 2000 } },
+  "10+5": { label: "10分＋5秒", control: { kind: "fischer", baseMs: 10 * 60_000, incrementMs: 5000 } },
+  "5+byo30": { label: "5分・秒読み30秒", control: { kind: "byoyomi", baseMs: 5 * 60_000, periodMs: 30_000 } },
+  byo30: { label: "1手30秒", control: { kind: "byoyomi", baseMs: 0, periodMs: 30_000 } },
+};
+
+export const TIME_CONTROL_ORDER: TimeControlId[] = ["none", "3+2", "10+5", "5+byo30", "byo30"];
+
+/* =========================
+   Clock
+========================= */
+
+// 時刻（now）は呼び出し側から渡す（Date.now() でもテスト用の数値でもよい）
+export type Clock = {
+  readonly control: TimeControl;
+  // 残りの持ち時間
+  readonly main: Readonly<Record<Player, number>>;
+  // 秒読みの残り（持ち時間を使い切ってからの今の1手分）
+  readonly period: Readonly<Record<Player, number>>;
+  // 時計が動いている側と、その時計を動かし始めた時刻
+  readonly running: Player | null;
+  readonly since: number;
+  // 時間切れになった側
+  readonly flagged: Player | null;
+};
+
+export function createClock(control: TimeControl): Clock {
+  const period = control.kind === "byoyomi" ? control.periodMs : 0;
+  return {
+    control,
+    main: { white: control.baseMs, black: control.baseMs },
+    period: { white: period, black: period },
+    running: null,
+    since: 0,
+    flagged: null,
+  };
+}
+
+// elapsed だけ時間を使った後の残り（持ち時間 → 秒読みの順に減る）。使い切ったら flagged
+function spend(clock: Clock, p: Player, elapsed: number): Clock {
+  let main = clock.main[p] - elapsed;
+  let period = clock.period[p];
+  if (main < 0) {
+    period += main;
+    main = 0;
+  }
+  const flagged = clock.flagged ?? (period <= 0 && main <= 0 ? p : null);
+  return {
+    ...clock,
+    main: { ...clock.main, [p]: main },
+    period: { ...clock.period, [p]: Math.max(0, period) },
+    flagged,
+  };
+}
+
+// 表示用：今の時点での残り
+export function timeLeft(clock: Clock, p: Player, now: number): { main: number; period: number } {
+  const c = clock.running === p ? spend(clock, p, Math.max(0, now - clock.since)) : clock;
+  return { main: c.main[p], period: c.period[p] };
+}
+
+export function startClock(clock: Clock, p: Player, now: number): Clock {
+  if (clock.flagged) return clock;
+  return { ...pauseClock(clock, now), running: p, since: now };
+}
+
+// 動いている時計を止める（AIの演出中・回転アニメーション中など）
+export function pauseClock(clock: Clock, now: number): Clock {
+  if (!clock.running) return clock;
+  return { ...spend(clock, clock.running, now - clock.since), running: null };
+}
+
+// 動いている側が指し終えた：時計を止め、加算・秒読みのリセットをする
+export function completeMove(clock: Clock, now: number): Clock {
+  const p = clock.running;
+  if (!p) return clock;
+  const c = pauseClock(clock, now);
+  if (c.flagged) return c;
+  if (c.control.kind === "fischer") {
+    return { ...c, main: { ...c.main, [p]: c.main[p] + c.control.incrementMs } };
+  }
+  return { ...c, period: { ...c.period, [p]: c.control.periodMs } };
+}
+
+// now の時点で時間切れなら、その側で時計を止めて flagged を付ける
+export function checkFlag(clock: Clock, now: number): Clock {
+  if (!clock.running || clock.flagged) return clock;
+  const left = timeLeft(clock, clock.running, now);
+  if (left.main > 0 || left.period > 0) return clock;
+  return pauseClock(clock, now);
+}
+
+// m:ss（1分未満は小数1桁まで）
+export function formatClock(ms: number): string {
+  const t = Math.max(0, ms);
+  if (t < 60_000) return (Math.floor(t / 100) / 10).toFixed(1);
+  const s = Math.floor(t / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
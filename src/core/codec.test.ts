@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { CellValue } from "../types";
+import { POSITION_CODE_LENGTH, decodePosition, encodePosition, positionFromSearch, positionUrl } from "./codec";
+import { createEmptyBoard } from "./rules";
+
+function randomBoard(seed: number): CellValue[][] {
+  let s = seed;
+  const next = () => (s = (s * 1103515245 + 12345) % 2147483648) / 2147483648;
+  return createEmptyBoard().map((row) => row.map((): CellValue => [null, "white", "black"][Math.floor(next() * 3)] as CellValue));
+}
+
+describe("position codec", () => {
+  it("encodes a position in 11 url-safe characters", () => {
+    const code = encodePosition(createEmptyBoard(), "white");
+    expect(code).toHaveLength(POSITION_CODE_LENGTH);
+    expect(POSITION_CODE_LENGTH).toBe(11);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("round-trips boards and side to move", () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const board = randomBoard(seed);
+      const turn = seed % 2 === 0 ? "white" : "black";
+      expect(decodePosition(encodePosition(board, turn))).toEqual({ board, turn });
+    }
+    const full = createEmptyBoard().map((row) => row.map((): CellValue => "black"));
+    expect(decodePosition(encodePosition(full, "black"))).toEqual({ board: full, turn: "black" });
+  });
+
+  it("rejects malformed codes", () => {
+    expect(decodePosition("")).toBeNull();
+    expect(decodePosition("AAAAAAAAAA")).toBeNull();
+    expect(decodePosition("AAAAAAAAAA*")).toBeNull();
+    // 1 バイト目が 243 以上
+    expect(decodePosition("_" + "A".repeat(10))).toBeNull();
+  });
+
+  it("reads and writes the pos url parameter", () => {
+    const board = randomBoard(7);
+    const url = positionUrl("https://example.com/pentago/?x=1#top", board, "black");
+    expect(url.startsWith("https://example.com/pentago/?pos=")).toBe(true);
+    expect(positionFromSearch(new URL(url).search)).toEqual({ board, turn: "black" });
+    expect(positionFromSearch("?other=1")).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import type { CellValue, Grid, Player } from "../types";
+import { SIZE } from "./rules";
+
+/*
+  URL 共有用の局面コード（11文字の base64url）。
+  36 マスを 3 進数（空=0, 白=1, 黒=2）で 5 マスずつ 1 バイトに詰める（3^5 = 243 ≦ 256）。
+  最後のバイトは 1 マスしか使わないので、残りに手番を入れる（マス値 + 3 × 手番）。
+*/
+
+const CELLS_PER_BYTE = 5;
+const BYTES = Math.ceil((SIZE * SIZE) / CELLS_PER_BYTE);
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+export const POSITION_CODE_LENGTH = Math.ceil((BYTES * 8) / 6);
+
+function cellDigit(v: CellValue): number {
+  return v === null ? 0 : v === "white" ? 1 : 2;
+}
+
+function digitCell(d: number): CellValue {
+  return d === 0 ? null : d === 1 ? "white" : "black";
+}
+
+function toBase64Url(bytes: number[]): string {
+  let bits = 0;
+  let acc = 0;
+  let out = "";
+  for (const b of bytes) {
+    acc = (acc << 8) | b;
+    bits += 8;
+    while (bits >= 6) {
+      bits -= 6;
+      out += ALPHABET[(acc >> bits) & 63];
+    }
+  }
+  if (bits > 0) out += ALPHABET[(acc << (6 - bits)) & 63];
+  return out;
+}
+
+function fromBase64Url(text: string): number[] | null {
+  let bits = 0;
+  let acc = 0;
+  const out: number[] = [];
+  for (const c of text) {
+    const v = ALPHABET.indexOf(c);
+    if (v < 0) return null;
+    acc = ((acc << 6) | v) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out.push((acc >> bits) & 255);
+    }
+  }
+  return out;
+}
+
+export function encodePosition(board: Grid, turn: Player): string {
+  const digits = board.flatMap((row) => row.map(cellDigit));
+  const bytes: number[] = [];
+  for (let i = 0; i < BYTES; i++) {
+    let b = 0;
+    for (let k = CELLS_PER_BYTE - 1; k >= 0; k--) b = b * 3 + (digits[i * CELLS_PER_BYTE + k] ?? 0);
+    bytes.push(b);
+  }
+  bytes[BYTES - 1] += 3 * (turn === "white" ? 0 : 1);
+  return toBase64Url(bytes);
+}
+
+// 形式が違えば null（局面として成り立つかは validatePosition で別に確かめる）
+export function decodePosition(code: string): { board: CellValue[][]; turn: Player } | null {
+  if (code.length !== POSITION_CODE_LENGTH) return null;
+  const bytes = fromBase64Url(code);
+  if (!bytes || bytes.length !== BYTES) return null;
+
+  const usedInLast = SIZE * SIZE - (BYTES - 1) * CELLS_PER_BYTE;
+  const last = bytes[BYTES - 1];
+  const turnDigit = Math.floor(last / 3 ** usedInLast);
+  if (turnDigit > 1) return null;
+  bytes[BYTES - 1] = last % 3 ** usedInLast;
+
+  const digits: number[] = [];
+  for (const b of bytes) {
+    if (b >= 3 ** CELLS_PER_BYTE) return null;
+    let v = b;
+    for (let k = 0; k < CELLS_PER_BYTE; k++) {
+      digits.push(v % 3);
+      v = Math.floor(v / 3);
+    }
+  }
+
+  const board = Array.from({ length: SIZE }, (_, y) =>
+    Array.from({ length: SIZE }, (_, x) => digitCell(digits[y * SIZE + x]))
+  );
+  return { board, turn: turnDigit === 0 ? "white" : "black" };
+}
+
+/* =========================
+   URL（?pos=<コード>）
+========================= */
+
+export const POSITION_PARAM = "pos";
+
+export function positionUrl(baseHref: string, board: Grid, turn: Player): string {
+  const url = new URL(baseHref);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(POSITION_PARAM, encodePosition(board, turn));
+  return url.toString();
+}
+
+export function positionFromSearch(search: string): { board: CellValue[][]; turn: Player } | null {
+  const code = new URLSearchParams(search).get(POSITION_PARAM);
+  return code ? decodePosition(code) : null;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { GameRecordError, historyFromRecord, parseGame, serializeGame, type GameRecord } from "./gameRecord";
+import { stateAt } from "./history";
+import { parseMove } from "./notation";
+import { createEmptyBoard } from "./rules";
+import { STANDARD_VARIANT } from "./variant";
+
+const moves = ["a1 4R", "a4 4R", "b1 4R", "b4 4R", "c1 4R", "c4 4R", "d1 4R", "a5 4L", "e1 4R"].map(parseMove);
+
+const record: GameRecord = {
+  mode: "ai",
+  aiSide: "black",
+  aiLevel: "hard",
+  players: null,
+  date: "2026-10-19",
+  result: { winner: "white", reason: "five" },
+  variant: STANDARD_VARIANT,
+  start: null,
+  moves,
+};
+
+describe("game record", () => {
+  it("round-trips through text", () => {
+    const text = serializeGame(record);
+    expect(text).toContain('[Result "white"]');
+    expect(text).toContain('[Termination "five"]');
+    expect(text).toContain("9. e1 4R");
+    expect(parseGame(text)).toEqual(record);
+  });
+
+  it("omits AI tags for local games and accepts games in progress", () => {
+    const local: GameRecord = { ...record, mode: "local", aiSide: null, aiLevel: null, result: null, moves: moves.slice(0, 3) };
+    const text = serializeGame(local);
+    expect(text).not.toContain("AiSide");
+    expect(parseGame(text)).toEqual(local);
+  });
+
+  it("keeps AI-vs-AI games apart from local games, with player names when both are given", () => {
+    const named: GameRecord = {
+      ...record,
+      mode: "watch",
+      aiSide: null,
+      aiLevel: null,
+      players: { white: "expert", black: "hard/nobook" },
+    };
+    const text = serializeGame(named);
+    expect(text).toContain('[Mode "watch"]');
+    expect(text).toContain('[White "expert"]');
+    expect(parseGame(text)).toEqual(named);
+    expect(() => parseGame(text.replace('[Mode "watch"]', '[Mode "online"]'))).toThrow(/invalid Mode/);
+    expect(() => parseGame(text.replace('[Black "hard/nobook"]\n', ""))).toThrow(/White and Black/);
+  });
+
+  it("keeps resignations and agreed draws, and derives the reason when the tag is missing", () => {
+    const resigned: GameRecord = { ...record, result: { winner: "black", reason: "resign" }, moves: moves.slice(0, 4) };
+    expect(parseGame(serializeGame(resigned))).toEqual(resigned);
+    const agreed: GameRecord = { ...resigned, result: { winner: "draw", reason: "agreement" } };
+    expect(parseGame(serializeGame(agreed))).toEqual(agreed);
+
+    expect(parseGame(serializeGame(record).replace('[Termination "five"]\n', "")).result).toEqual(record.result);
+  });
+
+  it("rejects a termination that contradicts the moves", () => {
+    const text = serializeGame(record);
+    expect(() => parseGame(text.replace('"five"', '"full"'))).toThrow(/does not match/);
+    // 5つ並んで決着済みの対局に投了は付けられない
+    expect(() => parseGame(text.replace('"five"', '"resign"'))).toThrow(/does not match/);
+    const resigned = serializeGame({ ...record, result: { winner: "black", reason: "resign" }, moves: moves.slice(0, 4) });
+    expect(() => parseGame(resigned.replace('[Result "black"]', '[Result "draw"]'))).toThrow(/does not match/);
+    expect(() => parseGame(resigned.replace('"resign"', '"gaveUp"'))).toThrow(/Termination/);
+  });
+
+  it("builds a history with players for the UI", () => {
+    const h = historyFromRecord(record);
+    expect(h.moves.map((m) => m.player).slice(0, 2)).toEqual(["white", "black"]);
+    expect(stateAt(h).winner).toBe("white");
+  });
+
+  it("starts from an edited position", () => {
+    const board = createEmptyBoard();
+    board[2][2] = "white";
+    const rec: GameRecord = { ...record, result: null, start: { board, turn: "black" }, moves: [parseMove("d3 1R")] };
+    const text = serializeGame(rec);
+    expect(text).toContain("[Position ");
+    expect(parseGame(text)).toEqual(rec);
+    expect(() => parseGame(text.replace(" b\"]", " w\"]"))).toThrow(/parity/);
+    expect(historyFromRecord(rec).moves[0].player).toBe("black");
+  });
+
+  it("records the rule variant and judges the result by it", () => {
+    const xl: GameRecord = {
+      ...record,
+      mode: "local",
+      aiSide: null,
+      aiLevel: null,
+      variant: { quadrants: 3, winLength: 4, skipRotation: true, randomRotation: false },
+      moves: ["a1 9R", "a5 9R", "b1 9R", "b5 9R", "c1 9R", "c5 9R", "d1 9R"].map(parseMove),
+    };
+    const text = serializeGame(xl);
+    expect(text).toContain('[Variant "9x9/4/skip"]');
+    expect(parseGame(text)).toEqual(xl);
+    expect(serializeGame(record)).not.toContain("Variant");
+    // 通常ルールとして読むと盤の外に置く手がある
+    expect(() => parseGame(text.replace(/\[Variant .*\]\n/, ""))).toThrow(GameRecordError);
+    expect(() => parseGame(text.replace("9x9/4", "9x9/12"))).toThrow(/Variant/);
+  });
+
+  it("reports the first illegal move with its index", () => {
+    const text = serializeGame({ ...record, result: null, moves: [moves[0], moves[1], moves[0]] });
+    try {
+      parseGame(text);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(GameRecordError);
+      expect((e as GameRecordError).moveIndex).toBe(2);
+    }
+  });
+
+  it("rejects moves after the game is over", () => {
+    const text = serializeGame({ ...record, moves: [...moves, parseMove("a6 1R")] });
+    expect(() => parseGame(text)).toThrow(/move 10/);
+  });
+
+  it("reports unreadable moves with their index", () => {
+    const text = serializeGame({ ...record, result: null, moves: moves.slice(0, 2) }) + "3. z9 1R\n";
+    try {
+      parseGame(text);
+      expect.unreachable();
+    } catch (e) {
+      expect((e as GameRecordError).moveIndex).toBe(2);
+    }
+  });
+
+  it("validates the header", () => {
+    const text = serializeGame(record);
+    expect(() => parseGame(text.replace('"Pentago"', '"Chess"'))).toThrow(GameRecordError);
+    expect(() => parseGame(text.replace('"hard"', '"godlike"'))).toThrow(/AiLevel/);
+    expect(() => parseGame(text.replace('[Result "white"]', '[Result "black"]'))).toThrow(/does not match/);
+    expect(() => parseGame(text.replace("2026-10-19", "yesterday"))).toThrow(/Date/);
+  });
+});
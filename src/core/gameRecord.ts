@@ -0,0 +1,245 @@
+import type { EndReason, GameMode, GameResult, GameState, Grid, Move, Player, Variant, Winner } from "../types";
+import { AI_LEVELS, type AiLevel } from "./ai";
+import type { History } from "./history";
+import { NotationError, formatMoveList, parseMoveList } from "./notation";
+import { positionFromText, positionToText, validatePosition } from "./position";
+import { IllegalMoveError, boardResult, createGame, createVariantGame, isAdjudicated, playMove } from "./rules";
+import { STANDARD_VARIANT, boardSize, isStandardVariant, parseVariant, variantToText } from "./variant";
+
+/*
+  棋譜ファイル（テキスト）：
+    [Game "Pentago"]
+    [Date "2026-10-19"]
+    [Mode "ai"]
+    [AiSide "black"]
+    [AiLevel "normal"]
+    [White "expert"]
+    [Black "hard/nobook"]
+    [Variant "9x9/5/skip"]
+    [Position "......(36文字)...... w"]
+    [Result "white"]
+    [Termination "five"]
+
+    1. c4 2R
+    2. d3 1L
+  Mode は local（人どうし）/ ai（人と AI）/ watch（AI どうし。AI どうしの対戦 CLI の棋譜も）。
+  Result は white / black / draw、対局中なら "*"。AiSide/AiLevel は Mode "ai" のときだけ。
+  White / Black は対局者の名前（AI どうしの対局の記録用。付けるなら両方）。
+  Termination は決着の理由（EndReason）。省略されていれば最終局面から決める。
+  resign / agreement / timeout は盤面に決着が付いていない対局にだけ付けられる。
+  Variant は通常ルール以外の対局だけ（形式は variant.ts の variantToText）。
+  Position は局面編集から始めた対局だけ（形式は position.ts の positionToText。6×6 の盤のみ）
+*/
+
+export type GameRecord = {
+  mode: GameMode;
+  aiSide: Player | null;
+  aiLevel: AiLevel | null;
+  // 対局者の名前（AI どうしの対局など）。なければ null
+  players: Record<Player, string> | null;
+  // YYYY-MM-DD
+  date: string;
+  result: GameResult | null;
+  variant: Variant;
+  // 初期局面（空の盤・白番）以外から始めた場合の開始局面
+  start: { board: Grid; turn: Player } | null;
+  moves: Move[];
+};
+
+export class GameRecordError extends Error {
+  // 不正な手があった場合、その手の位置（0 始まり）
+  moveIndex?: number;
+
+  constructor(message: string, moveIndex?: number) {
+    super(message);
+    this.name = "GameRecordError";
+    this.moveIndex = moveIndex;
+  }
+}
+
+export function todayString(d: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function serializeGame(rec: GameRecord): string {
+  const tags: [string, string][] = [
+    ["Game", "Pentago"],
+    ["Date", rec.date],
+    ["Mode", rec.mode],
+  ];
+  if (rec.mode === "ai") {
+    tags.push(["AiSide", rec.aiSide ?? ""]);
+    tags.push(["AiLevel", rec.aiLevel ?? ""]);
+  }
+  if (rec.players) {
+    tags.push(["White", rec.players.white]);
+    tags.push(["Black", rec.players.black]);
+  }
+  if (!isStandardVariant(rec.variant)) tags.push(["Variant", variantToText(rec.variant)]);
+  if (rec.start) tags.push(["Position", positionToText(rec.start.board, rec.start.turn)]);
+  tags.push(["Result", rec.result?.winner ?? "*"]);
+  if (rec.result) tags.push(["Termination", rec.result.reason]);
+
+  const header = tags.map(([k, v]) => `[${k} "${v}"]`).join("\n");
+  return `${header}\n\n${formatMoveList(rec.moves)}\n`;
+}
+
+// start から moves を打ち直す。不正な手があればその位置付きで投げる
+export function replayMoves(moves: readonly Move[], start: GameState = createGame()): GameState {
+  let s = start;
+  moves.forEach((m, i) => {
+    try {
+      s = playMove(s, m);
+    } catch (e) {
+      if (!(e instanceof IllegalMoveError)) throw e;
+      throw new GameRecordError(`move ${i + 1}: illegal move (${e.message})`, i);
+    }
+  });
+  return s;
+}
+
+const TAG_RE = /^\[(\w+)\s+"([^"]*)"\]$/;
+
+function isPlayer(v: string): v is Player {
+  return v === "white" || v === "black";
+}
+
+const END_REASONS: readonly EndReason[] = ["five", "doubleFive", "full", "resign", "agreement", "timeout"];
+
+function isEndReason(v: string): v is EndReason {
+  return (END_REASONS as readonly string[]).includes(v);
+}
+
+function isAiLevel(v: string): v is AiLevel {
+  return Object.prototype.hasOwnProperty.call(AI_LEVELS, v);
+}
+
+export function parseGame(text: string): GameRecord {
+  const tags = new Map<string, string>();
+  const moveLines: string[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "") continue;
+    if (line.startsWith("[")) {
+      if (moveLines.length > 0) throw new GameRecordError(`tag after moves: ${line}`);
+      const m = TAG_RE.exec(line);
+      if (!m) throw new GameRecordError(`invalid tag: ${line}`);
+      if (tags.has(m[1])) throw new GameRecordError(`duplicate tag: ${m[1]}`);
+      tags.set(m[1], m[2]);
+    } else {
+      moveLines.push(line);
+    }
+  }
+
+  if (tags.get("Game") !== "Pentago") throw new GameRecordError('missing [Game "Pentago"] tag');
+
+  const date = tags.get("Date") ?? "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new GameRecordError(`invalid Date: "${date}"`);
+
+  const mode = tags.get("Mode");
+  if (mode !== "local" && mode !== "ai" && mode !== "watch") throw new GameRecordError(`invalid Mode: "${mode ?? ""}"`);
+
+  let aiSide: Player | null = null;
+  let aiLevel: AiLevel | null = null;
+  if (mode === "ai") {
+    const side = tags.get("AiSide") ?? "";
+    if (!isPlayer(side)) throw new GameRecordError(`invalid AiSide: "${side}"`);
+    const level = tags.get("AiLevel") ?? "";
+    if (!isAiLevel(level)) throw new GameRecordError(`invalid AiLevel: "${level}"`);
+    aiSide = side;
+    aiLevel = level;
+  }
+
+  let players: GameRecord["players"] = null;
+  const white = tags.get("White");
+  const black = tags.get("Black");
+  if (white !== undefined || black !== undefined) {
+    if (!white || !black) throw new GameRecordError("White and Black tags must both be set");
+    players = { white, black };
+  }
+
+  let variant = STANDARD_VARIANT;
+  const variantTag = tags.get("Variant");
+  if (variantTag !== undefined) {
+    const v = parseVariant(variantTag);
+    if (!v) throw new GameRecordError(`invalid Variant: "${variantTag}"`);
+    variant = v;
+  }
+
+  let start: GameRecord["start"] = null;
+  const positionTag = tags.get("Position");
+  if (positionTag !== undefined) {
+    start = positionFromText(positionTag);
+    if (!start || start.board.length !== boardSize(variant)) {
+      throw new GameRecordError(`invalid Position: "${positionTag}"`);
+    }
+    const issues = validatePosition(start.board, start.turn, variant.winLength);
+    if (issues.length > 0) throw new GameRecordError(`impossible Position (${issues.join(", ")})`);
+  }
+
+  const resultTag = tags.get("Result") ?? "";
+  if (resultTag !== "*" && resultTag !== "draw" && !isPlayer(resultTag)) {
+    throw new GameRecordError(`invalid Result: "${resultTag}"`);
+  }
+  const winner: Winner | null = resultTag === "*" ? null : resultTag;
+
+  let termination: EndReason | undefined;
+  const terminationTag = tags.get("Termination");
+  if (terminationTag !== undefined) {
+    if (!isEndReason(terminationTag) || winner === null) {
+      throw new GameRecordError(`invalid Termination: "${terminationTag}"`);
+    }
+    termination = terminationTag;
+  }
+
+  let moves: Move[];
+  try {
+    moves = parseMoveList(moveLines.join("\n"));
+  } catch (e) {
+    if (!(e instanceof NotationError)) throw e;
+    throw new GameRecordError(e.message, e.index);
+  }
+
+  const final = replayMoves(moves, startState(start, variant));
+  const result = resultFor(winner, termination, boardResult(final.board, variant.winLength));
+  if (result === undefined) {
+    const what = termination === undefined ? `Result "${resultTag}"` : `Result "${resultTag}" / Termination "${termination}"`;
+    throw new GameRecordError(`${what} does not match the moves (${final.winner ?? "*"})`);
+  }
+
+  return { mode, aiSide, aiLevel, players, date, result, variant, start, moves };
+}
+
+// タグの勝敗・理由が最終局面と食い違っていなければ GameResult を、食い違えば undefined を返す
+function resultFor(
+  winner: Winner | null,
+  reason: EndReason | undefined,
+  onBoard: GameResult | null
+): GameResult | null | undefined {
+  if (winner === null) return onBoard === null ? null : undefined;
+  if (reason === undefined || !isAdjudicated({ winner, reason })) {
+    const matches = onBoard !== null && onBoard.winner === winner && (reason === undefined || reason === onBoard.reason);
+    return matches ? onBoard : undefined;
+  }
+  // 投了・時間切れは勝者が、合意は引き分けが要る。盤面で決着済みの対局には付けられない
+  if (onBoard !== null || (reason === "agreement") !== (winner === "draw")) return undefined;
+  return { winner, reason };
+}
+
+function startState(start: GameRecord["start"], variant: Variant): GameState {
+  return start ? createGame(start.board, start.turn, variant) : createVariantGame(variant);
+}
+
+// 棋譜から手番付きの History を作る（UI に読み込む用）
+export function historyFromRecord(rec: GameRecord): History {
+  const start = startState(rec.start, rec.variant);
+  let s = start;
+  const moves = rec.moves.map((m) => {
+    const entry = { player: s.turn, ...m };
+    s = playMove(s, m);
+    return entry;
+  });
+  return { start, moves, cursor: moves.length };
+}
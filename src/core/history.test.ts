@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { Player } from "../types";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  moveTo,
+  pushMove,
+  redoTarget,
+  stateAt,
+  undoTarget,
+  type History,
+} from "./history";
+import { IllegalMoveError, createGame } from "./rules";
+
+function rec(player: Player, x: number, y: number) {
+  return { player, pos: { x, y }, quadrant: 3, dir: "cw" as const };
+}
+
+// 白・黒交互に n 手（右下象限を回すので左上の石は動かない）
+function played(n: number): History {
+  let h = createHistory(createGame());
+  for (let i = 0; i < n; i++) h = pushMove(h, rec(i % 2 === 0 ? "white" : "black", i % 3, Math.floor(i / 3)));
+  return h;
+}
+
+describe("history", () => {
+  it("replays moves from the start position", () => {
+    const h = played(3);
+    const s = stateAt(h);
+    expect(s.moveNumber).toBe(3);
+    expect(s.board[0][0]).toBe("white");
+    expect(s.board[0][1]).toBe("black");
+    expect(s.turn).toBe("black");
+    expect(stateAt(h, 1).board[0][1]).toBeNull();
+  });
+
+  it("undoes and redoes single moves in local play", () => {
+    const h = played(3);
+    expect(undoTarget(h)).toBe(2);
+    const back = moveTo(h, undoTarget(h));
+    expect(canRedo(back)).toBe(true);
+    expect(redoTarget(back)).toBe(3);
+    expect(canUndo(moveTo(h, 0))).toBe(false);
+  });
+
+  it("drops the redo tail when a new move is pushed", () => {
+    const h = pushMove(moveTo(played(4), 2), rec("white", 5, 0));
+    expect(h.moves).toHaveLength(3);
+    expect(canRedo(h)).toBe(false);
+  });
+
+  it("rolls back the AI reply together with the human move", () => {
+    // 人間=白、AI=黒
+    const h = played(4);
+    expect(undoTarget(h, "white")).toBe(2);
+    // 人間の手の直後（AIが考え中）でもその手まで戻す
+    expect(undoTarget(moveTo(h, 3), "white")).toBe(2);
+    expect(redoTarget(moveTo(h, 2), "white")).toBe(4);
+  });
+
+  it("does not undo an AI opening move on its own", () => {
+    // 人間=黒、AI=白が初手だけ打った状態
+    const h = played(1);
+    expect(canUndo(h, "black")).toBe(false);
+    expect(canUndo(played(3), "black")).toBe(true);
+    expect(undoTarget(played(3), "black")).toBe(1);
+  });
+
+  it("rejects records played out of turn", () => {
+    const h = pushMove(createHistory(createGame()), rec("black", 0, 0));
+    expect(() => stateAt(h)).toThrow(IllegalMoveError);
+  });
+});
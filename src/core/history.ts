@@ -0,0 +1,67 @@
+import type { Dir, GameState, Player, Pos } from "../types";
+import { IllegalMoveError, playMove } from "./rules";
+
+export type MoveRecord = { player: Player; pos: Pos; quadrant: number; dir: Dir };
+
+// start から moves[0..cursor) を打った局面が現在。cursor より後ろは「やり直し」用
+export type History = {
+  readonly start: GameState;
+  readonly moves: readonly MoveRecord[];
+  readonly cursor: number;
+};
+
+export function createHistory(start: GameState): History {
+  return { start, moves: [], cursor: 0 };
+}
+
+// 新しい手を積む。やり直し用の手は捨てる
+export function pushMove(h: History, rec: MoveRecord): History {
+  return { start: h.start, moves: [...h.moves.slice(0, h.cursor), rec], cursor: h.cursor + 1 };
+}
+
+// cursor 手目までを start から打ち直した局面
+export function stateAt(h: History, cursor: number = h.cursor): GameState {
+  let s = h.start;
+  for (let i = 0; i < cursor; i++) {
+    const rec = h.moves[i];
+    if (rec.player !== s.turn) {
+      throw new IllegalMoveError(`move ${i + 1}: expected ${s.turn}, got ${rec.player}`);
+    }
+    s = playMove(s, rec);
+  }
+  return s;
+}
+
+// 戻した後の cursor。human を渡すと（AI戦）、AIの応手ごと直前の自分の手まで戻す
+export function undoTarget(h: History, human: Player | null = null): number {
+  if (!human) return Math.max(0, h.cursor - 1);
+  for (let i = h.cursor - 1; i >= 0; i--) {
+    if (h.moves[i].player === human) return i;
+  }
+  // 自分の手がまだ無い（AIの初手だけ）なら戻さない
+  return h.cursor;
+}
+
+// やり直した後の cursor。human を渡すと、自分の手とそれに続くAIの応手をまとめて進める
+export function redoTarget(h: History, human: Player | null = null): number {
+  if (h.cursor >= h.moves.length) return h.cursor;
+  if (!human) return h.cursor + 1;
+  let i = h.cursor;
+  while (i < h.moves.length && h.moves[i].player !== human) i++;
+  if (i >= h.moves.length) return h.cursor;
+  i++;
+  while (i < h.moves.length && h.moves[i].player !== human) i++;
+  return i;
+}
+
+export function canUndo(h: History, human: Player | null = null): boolean {
+  return undoTarget(h, human) < h.cursor;
+}
+
+export function canRedo(h: History, human: Player | null = null): boolean {
+  return redoTarget(h, human) > h.cursor;
+}
+
+export function moveTo(h: History, cursor: number): History {
+  return { ...h, cursor: Math.max(0, Math.min(h.moves.length, cursor)) };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { CellValue, MultiConfig, Stone } from "../types";
+import { createMultiGame, isValidConfig, multiResult, nextTurn, rotateMulti, sidesOf } from "./multiplayer";
+import { IllegalMoveError, confirmPlacement, findFives, place } from "./rules";
+import { STANDARD_VARIANT } from "./variant";
+
+const STONE_CHARS: Record<string, Stone> = { W: "white", B: "black", Y: "yellow", U: "blue" };
+
+// "W" = 白, "B" = 黒, "Y" = 黄, "U" = 青, "." = 空 の6行で盤面を作る
+function parse(rows: string[]): CellValue[][] {
+  return rows.map((row) => row.split("").map((c) => STONE_CHARS[c] ?? null));
+}
+
+const THREE: MultiConfig = { order: ["white", "black", "yellow"], teams: false, variant: STANDARD_VARIANT };
+const TEAMS: MultiConfig = { order: ["white", "black", "yellow", "blue"], teams: true, variant: STANDARD_VARIANT };
+
+describe("config", () => {
+  it("3〜4色・重複なし・チーム戦は4人のみ", () => {
+    expect(isValidConfig(THREE)).toBe(true);
+    expect(isValidConfig(TEAMS)).toBe(true);
+    expect(isValidConfig({ ...THREE, order: ["white", "black"] })).toBe(false);
+    expect(isValidConfig({ ...THREE, order: ["white", "black", "white"] })).toBe(false);
+    expect(isValidConfig({ ...THREE, teams: true })).toBe(false);
+    expect(isValidConfig({ ...THREE, variant: { ...STANDARD_VARIANT, winLength: 7 } })).toBe(false);
+    expect(() => createMultiGame({ ...THREE, teams: true })).toThrow(IllegalMoveError);
+  });
+
+  it("チーム戦は1・3番目と2・4番目が組む", () => {
+    expect(sidesOf(TEAMS)).toEqual([
+      ["white", "yellow"],
+      ["black", "blue"],
+    ]);
+    expect(sidesOf(THREE)).toEqual([["white"], ["black"], ["yellow"]]);
+  });
+});
+
+describe("turns", () => {
+  it("order の順に手番が回り、最後の色の次は最初に戻る", () => {
+    expect(nextTurn(THREE, "white")).toBe("black");
+    expect(nextTurn(THREE, "yellow")).toBe("white");
+
+    let s = createMultiGame(THREE);
+    const seen: Stone[] = [];
+    for (let i = 0; i < 4; i++) {
+      seen.push(s.turn);
+      s = rotateMulti(confirmPlacement(place(s, { x: i, y: 0 })), 3, "cw");
+    }
+    expect(seen).toEqual(["white", "black", "yellow", "white"]);
+    expect(s.turn).toBe("black");
+    expect(s.moveNumber).toBe(4);
+  });
+});
+
+describe("multiResult", () => {
+  it("チーム戦では味方の石が混ざった並びでも勝ち", () => {
+    const board = parse(["WYWYW.", "B.....", "U.....", "B.....", "......", "......"]);
+    expect(multiResult(board, TEAMS)).toEqual({ winner: ["white", "yellow"], reason: "five" });
+    expect(multiResult(board, { ...TEAMS, teams: false })).toBeNull();
+    expect(findFives(board, 5, sidesOf(TEAMS))).toHaveLength(1);
+    expect(findFives(board, 5)).toHaveLength(0);
+  });
+
+  it("2組以上が同時に並んだら引き分け", () => {
+    const board = parse(["WWWWW.", "BBBBB.", "Y.....", "......", "......", "......"]);
+    expect(multiResult(board, THREE)).toEqual({ winner: "draw", reason: "doubleFive" });
+  });
+
+  it("回転で並べば手番はそのまま決着する", () => {
+    const start = createMultiGame(THREE);
+    const s = confirmPlacement(
+      place({ ...start, board: parse(["......", "......", "......", "......", "B.Y...", "WWWW.."]) }, { x: 4, y: 5 })
+    );
+    const end = rotateMulti(s, 1, "cw");
+    expect(end.winner).toEqual(["white"]);
+    expect(end.turn).toBe("white");
+    expect(() => rotateMulti(end, 1, "cw")).toThrow(IllegalMoveError);
+  });
+});
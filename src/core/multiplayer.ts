@@ -0,0 +1,91 @@
+import type { Dir, GameResult, Grid, MultiConfig, MultiState, MultiWinner, Stone } from "../types";
+import { IllegalMoveError, applyMove, createEmptyBoard, hasLine, isFull } from "./rules";
+import { boardSize, isValidVariant, quadrantCount } from "./variant";
+
+/*
+  3〜4人対戦（Pentago XL の多人数ルール）。
+  石は 4 色（白・黒・黄・青）で、MultiConfig.order の順に手番が回る。
+  チーム戦（4人のみ）では手番の 1・3 番目と 2・4 番目が味方で、味方の石が混ざった並びでも勝ちになる。
+  置く・確定する・戻す操作は rules.ts の place / confirmPlacement / undo をそのまま使い、
+  回して手番を回すところだけここで行う。
+*/
+
+export const STONES: readonly Stone[] = ["white", "black", "yellow", "blue"];
+
+export const STONE_NAMES: Record<Stone, string> = {
+  white: "白",
+  black: "黒",
+  yellow: "黄",
+  blue: "青",
+};
+
+export function isValidConfig(config: MultiConfig): boolean {
+  const { order, teams, variant } = config;
+  return (
+    (order.length === 3 || order.length === 4) &&
+    new Set(order).size === order.length &&
+    order.every((s) => STONES.includes(s)) &&
+    (!teams || order.length === 4) &&
+    isValidVariant(variant)
+  );
+}
+
+// 勝ち負けを数える組。チーム戦なら味方どうし、そうでなければ1色ずつ
+export function sidesOf(config: MultiConfig): Stone[][] {
+  const { order, teams } = config;
+  if (!teams) return order.map((s) => [s]);
+  return [
+    [order[0], order[2]],
+    [order[1], order[3]],
+  ];
+}
+
+export function nextTurn(config: MultiConfig, stone: Stone): Stone {
+  const i = config.order.indexOf(stone);
+  return config.order[(i + 1) % config.order.length];
+}
+
+// 盤面だけで決まる決着。並びができた組が1つならその組の勝ち、2つ以上同時なら引き分け
+export function multiResult(board: Grid, config: MultiConfig): { winner: MultiWinner; reason: GameResult["reason"] } | null {
+  const won = sidesOf(config).filter((side) => hasLine(board, side, config.variant.winLength));
+  if (won.length > 1) return { winner: "draw", reason: "doubleFive" };
+  if (won.length === 1) return { winner: won[0], reason: "five" };
+  if (isFull(board)) return { winner: "draw", reason: "full" };
+  return null;
+}
+
+export function createMultiGame(config: MultiConfig): MultiState {
+  if (!isValidConfig(config)) throw new IllegalMoveError("invalid multiplayer config");
+  return {
+    board: createEmptyBoard(boardSize(config.variant)),
+    turn: config.order[0],
+    phase: "place",
+    pending: null,
+    winner: null,
+    moveNumber: 0,
+    variant: config.variant,
+    config,
+  };
+}
+
+// 回転して1手を確定。勝敗判定と次の色への手番交代まで行う（rules.ts の rotate の多人数版）
+export function rotateMulti(state: MultiState, quadrant: number, dir: Dir): MultiState {
+  if (state.winner) throw new IllegalMoveError("game is over");
+  if (state.phase !== "rotate") throw new IllegalMoveError(`phase=${state.phase}`);
+  if (!state.pending) throw new IllegalMoveError("no pending placement");
+  if (!Number.isInteger(quadrant) || quadrant < 0 || quadrant >= quadrantCount(state.variant)) {
+    throw new IllegalMoveError(`invalid quadrant: ${quadrant}`);
+  }
+
+  const { board } = applyMove(state.board, state.turn, { pos: state.pending, quadrant, dir });
+  const result = multiResult(board, state.config);
+  return {
+    ...state,
+    board,
+    turn: result ? state.turn : nextTurn(state.config, state.turn),
+    phase: "place",
+    pending: null,
+    winner: result?.winner ?? null,
+    moveNumber: state.moveNumber + 1,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { NotationError, formatMove, formatPos, parseMove, parsePos } from "./notation";
+import { createEmptyBoard, generateMoves } from "./rules";
+
+describe("notation", () => {
+  it("formats column letter, row number, quadrant and direction", () => {
+    expect(formatMove({ pos: { x: 2, y: 3 }, quadrant: 1, dir: "cw" })).toBe("c4 2R");
+    expect(formatMove({ pos: { x: 0, y: 0 }, quadrant: 0, dir: "ccw" })).toBe("a1 1L");
+    expect(formatPos({ x: 5, y: 5 })).toBe("f6");
+  });
+
+  it("round-trips every move on the board", () => {
+    for (const m of generateMoves(createEmptyBoard())) {
+      expect(parseMove(formatMove(m))).toEqual(m);
+    }
+  });
+
+  it("round-trips every move on the 9x9 board", () => {
+    for (const m of generateMoves(createEmptyBoard(9))) {
+      expect(parseMove(formatMove(m))).toEqual(m);
+    }
+    expect(formatMove({ pos: { x: 8, y: 8 }, quadrant: 8, dir: "ccw" })).toBe("i9 9L");
+  });
+
+  it("accepts lower case and missing spaces", () => {
+    expect(parseMove("C4 2r")).toEqual({ pos: { x: 2, y: 3 }, quadrant: 1, dir: "cw" });
+    expect(parseMove(" e5 4l ")).toEqual(parseMove("e54L"));
+    expect(parsePos("B6")).toEqual({ x: 1, y: 5 });
+  });
+
+  it("rejects malformed text", () => {
+    for (const bad of ["", "j1 1R", "a0 1R", "a10 1R", "a1 0R", "a1 1X", "a1", "11 1R"]) {
+      expect(() => parseMove(bad)).toThrow(NotationError);
+    }
+    expect(() => parsePos("z9")).toThrow(NotationError);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Dir, Move, Pos } from "../types";
+
+/*
+  棋譜表記： <列><行> <象限><向き>   例) "c4 2R"
+    列   a〜f（左から。9×9 の盤では a〜i）
+    行   1〜6（上から。9×9 の盤では 1〜9）
+    象限 1=左上, 2=右上, 3=左下, 4=右下（9×9 の盤では左上から横に 1〜9）
+    向き R=時計回り(cw), L=反時計回り(ccw)
+*/
+
+export class NotationError extends Error {
+  // 手順を読んでいたときの何手目か（0 始まり）
+  index?: number;
+
+  constructor(message: string, index?: number) {
+    super(message);
+    this.name = "NotationError";
+    this.index = index;
+  }
+}
+
+const COLUMNS = "abcdefghi";
+
+export function formatPos(pos: Pos): string {
+  return `${COLUMNS[pos.x]}${pos.y + 1}`;
+}
+
+export function formatRotation(quadrant: number, dir: Dir): string {
+  return `${quadrant + 1}${dir === "cw" ? "R" : "L"}`;
+}
+
+export function formatMove(move: Move): string {
+  return `${formatPos(move.pos)} ${formatRotation(move.quadrant, move.dir)}`;
+}
+
+// 盤の大きさは見ない（盤に収まるかはルール側で確かめる）
+const POS_RE = /^([a-i])([1-9])$/i;
+const MOVE_RE = /^([a-i])([1-9])\s*([1-9])([rl])$/i;
+
+export function parsePos(text: string): Pos {
+  const m = POS_RE.exec(text.trim());
+  if (!m) throw new NotationError(`invalid cell: "${text}"`);
+  return { x: COLUMNS.indexOf(m[1].toLowerCase()), y: Number(m[2]) - 1 };
+}
+
+export function parseMove(text: string): Move {
+  const m = MOVE_RE.exec(text.trim());
+  if (!m) throw new NotationError(`invalid move: "${text}"`);
+  return {
+    pos: { x: COLUMNS.indexOf(m[1].toLowerCase()), y: Number(m[2]) - 1 },
+    quadrant: Number(m[3]) - 1,
+    dir: m[4].toUpperCase() === "R" ? "cw" : "ccw",
+  };
+}
+
+// 手順テキストを読む。"1." のような手数・改行・カンマは無視する
+export function parseMoveList(text: string): Move[] {
+  const tokens = text
+    .split(/[\s,]+/)
+    .filter((t) => t !== "" && !/^\d+\.$/.test(t));
+
+  const moves: Move[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    // "c4 2R" と "c42R" のどちらも受け付ける
+    const joined = POS_RE.test(tokens[i]) && i + 1 < tokens.length ? tokens[i] + tokens[i + 1] : tokens[i];
+    if (MOVE_RE.test(joined)) {
+      if (joined !== tokens[i]) i++;
+      moves.push(parseMove(joined));
+    } else {
+      throw new NotationError(`move ${moves.length + 1}: invalid move "${joined}"`, moves.length);
+    }
+  }
+  return moves;
+}
+
+export function formatMoveList(moves: readonly Move[]): string {
+  return moves.map((m, i) => `${i + 1}. ${formatMove(m)}`).join("\n");
+}
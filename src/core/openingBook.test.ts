@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { fromGrid } from "./bitboard";
+import { BOOK_LINES, bookReplies } from "./openingBook";
+import { parseMoveList } from "./notation";
+import { createEmptyBoard, createGame, playMove } from "./rules";
+
+describe("opening book", () => {
+  it("has only legal lines", () => {
+    for (const { from, line } of BOOK_LINES) {
+      expect(() => parseMoveList(`${from} ${line}`).reduce(playMove, createGame())).not.toThrow();
+    }
+  });
+
+  it("answers the initial position", () => {
+    const empty = createEmptyBoard();
+    expect(bookReplies(fromGrid(empty, "white"), fromGrid(empty, "black")).length).toBeGreaterThan(0);
+  });
+
+  it("finds the same entry in a mirrored or rotated position", () => {
+    // 定跡は b2 から始まるが、e5（盤を 180 度回した形）でも引ける
+    const b2 = parseMoveList("b2 1R").reduce(playMove, createGame()).board;
+    const e5 = parseMoveList("e5 4R").reduce(playMove, createGame()).board;
+    const replies = bookReplies(fromGrid(b2, "black"), fromGrid(b2, "white"));
+    expect(replies.length).toBeGreaterThan(0);
+    expect(bookReplies(fromGrid(e5, "black"), fromGrid(e5, "white"))).toEqual(replies);
+  });
+
+  it("has nothing for positions off the book", () => {
+    const b = parseMoveList("a1 1R a6 3R").reduce(playMove, createGame()).board;
+    expect(bookReplies(fromGrid(b, "white"), fromGrid(b, "black"))).toEqual([]);
+  });
+});
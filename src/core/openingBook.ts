@@ -0,0 +1,60 @@
+import type { GameState } from "../types";
+import { canonical, fromGrid, sameKey, type Bits, type CanonicalKey } from "./bitboard";
+import { parseMoveList } from "./notation";
+import { createGame, opponent, playMove } from "./rules";
+
+/*
+  定跡（6×6・通常ルールの序盤だけ）。
+  手順は棋譜表記で持ち、初めて引くときに1手ずつ並べて
+  「手番側から見た正規化済みの局面 → 定跡の手で進んだ先の局面」の表を作る。
+  行き先も正規化してあるので、盤を回した・裏返した形で出会っても同じ定跡が引ける。
+*/
+
+// 定跡の手順。from まで並べた局面から、line の手を1手ずつ定跡として覚える（from の手は覚えない）
+export type BookLine = { from: string; line: string };
+
+export const BOOK_LINES: readonly BookLine[] = [
+  // 4つの象限の中央を取り合う
+  { from: "", line: "b2 1R e5 4R b5 3R e2 2R" },
+  { from: "", line: "b2 1R e5 4R e2 2R b5 3R" },
+  { from: "", line: "b2 1R b5 3R e5 4R e2 2R" },
+  { from: "", line: "b2 1R e2 2R e5 4R b5 3R" },
+  // 初手が中央でなければ、空いている中央を取る
+  { from: "a1 1R", line: "e5 4R" },
+  { from: "b1 1R", line: "e5 4R" },
+  { from: "c3 4R", line: "e5 4R" },
+];
+
+type Book = Map<string, CanonicalKey[]>;
+
+let book: Book | null = null;
+
+function keyText(key: CanonicalKey): string {
+  return key.join(",");
+}
+
+function positionKey(state: GameState): CanonicalKey {
+  return canonical(fromGrid(state.board, state.turn), fromGrid(state.board, opponent(state.turn)));
+}
+
+function buildBook(): Book {
+  const out: Book = new Map();
+  for (const { from, line } of BOOK_LINES) {
+    let state = parseMoveList(from).reduce(playMove, createGame());
+    for (const move of parseMoveList(line)) {
+      const key = keyText(positionKey(state));
+      state = playMove(state, move);
+      const to = positionKey(state);
+      const list = out.get(key) ?? [];
+      if (!list.some((k) => sameKey(k, to))) list.push(to);
+      out.set(key, list);
+    }
+  }
+  return out;
+}
+
+// 手番側の石 me・相手の石 them の局面で、定跡の手を指した先の局面（次に指す側から見て正規化済み）。定跡になければ空
+export function bookReplies(me: Bits, them: Bits): readonly CanonicalKey[] {
+  if (!book) book = buildBook();
+  return book.get(keyText(canonical(me, them))) ?? [];
+}
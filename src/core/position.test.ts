@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  cycleCell,
+  isInitialPosition,
+  positionFromText,
+  positionToText,
+  turnFromCounts,
+  validatePosition,
+} from "./position";
+import { createEmptyBoard } from "./rules";
+
+describe("position", () => {
+  it("cycles empty → white → black → empty", () => {
+    let b = createEmptyBoard();
+    b = cycleCell(b, { x: 1, y: 2 });
+    expect(b[2][1]).toBe("white");
+    b = cycleCell(b, { x: 1, y: 2 });
+    expect(b[2][1]).toBe("black");
+    b = cycleCell(b, { x: 1, y: 2 });
+    expect(b[2][1]).toBeNull();
+  });
+
+  it("checks stone count parity against the side to move", () => {
+    const b = cycleCell(createEmptyBoard(), { x: 0, y: 0 });
+    expect(validatePosition(b, "black")).toEqual([]);
+    expect(validatePosition(b, "white")).toEqual(["parity"]);
+    expect(turnFromCounts(b)).toBe("black");
+    expect(turnFromCounts(cycleCell(cycleCell(b, { x: 1, y: 1 }), { x: 1, y: 1 }))).toBe("white");
+  });
+
+  it("rejects positions that are already decided", () => {
+    const b = createEmptyBoard();
+    for (let x = 0; x < 5; x++) {
+      b[0][x] = "white";
+      b[5][x] = "black";
+    }
+    b[3][3] = "white";
+    expect(validatePosition(b, "black")).toEqual(["finished"]);
+  });
+
+  it("round-trips the text form", () => {
+    let b = cycleCell(createEmptyBoard(), { x: 5, y: 0 });
+    b = cycleCell(cycleCell(b, { x: 0, y: 5 }), { x: 0, y: 5 });
+    const text = positionToText(b, "white");
+    expect(text).toBe(".....W" + ".".repeat(24) + "B..... w");
+    expect(positionFromText(text)).toEqual({ board: b, turn: "white" });
+    expect(positionFromText("WB b")).toBeNull();
+  });
+
+  it("recognises the initial position", () => {
+    expect(isInitialPosition(createEmptyBoard(), "white")).toBe(true);
+    expect(isInitialPosition(createEmptyBoard(), "black")).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import type { CellValue, Grid, Player, Pos } from "../types";
+import { SIZE, WIN_LENGTH, checkWinner, cloneBoard } from "./rules";
+
+/* =========================
+   局面の検証（局面編集・棋譜の開始局面用）
+========================= */
+
+// parity   : 石の数が手番と合わない（白先手なので 白=黒 なら白番、白=黒+1 なら黒番）
+// finished : すでに勝敗（盤が埋まった引き分けを含む）が付いている
+export type PositionIssue = "parity" | "finished";
+
+export function countStones(board: Grid): Record<Player, number> {
+  const count = { white: 0, black: 0 };
+  for (const row of board) for (const v of row) if (v === "white" || v === "black") count[v]++;
+  return count;
+}
+
+export function validatePosition(board: Grid, turn: Player, winLength: number = WIN_LENGTH): PositionIssue[] {
+  const issues: PositionIssue[] = [];
+  const { white, black } = countStones(board);
+  const diff = white - black;
+  if (!(turn === "white" ? diff === 0 : diff === 1)) issues.push("parity");
+  if (checkWinner(board, winLength)) issues.push("finished");
+  return issues;
+}
+
+// 石の数から決まる手番。どちらでもあり得ない数なら null
+export function turnFromCounts(board: Grid): Player | null {
+  const { white, black } = countStones(board);
+  if (white === black) return "white";
+  if (white === black + 1) return "black";
+  return null;
+}
+
+// 空 → 白 → 黒 → 空 …
+export function cycleCell(board: Grid, pos: Pos): CellValue[][] {
+  const b = cloneBoard(board);
+  const v = b[pos.y][pos.x];
+  b[pos.y][pos.x] = v === null ? "white" : v === "white" ? "black" : null;
+  return b;
+}
+
+export function isInitialPosition(board: Grid, turn: Player): boolean {
+  return turn === "white" && board.every((row) => row.every((v) => v === null));
+}
+
+/* =========================
+   テキスト表記：上の行から 36 文字（W/B/.）＋空白＋手番（w/b）
+========================= */
+
+export function positionToText(board: Grid, turn: Player): string {
+  const cells = board.map((row) => row.map((v) => (v === "white" ? "W" : v === "black" ? "B" : ".")).join(""));
+  return `${cells.join("")} ${turn === "white" ? "w" : "b"}`;
+}
+
+export function positionFromText(text: string): { board: CellValue[][]; turn: Player } | null {
+  const m = /^([WB.]{36})\s+([wb])$/i.exec(text.trim());
+  if (!m) return null;
+  const chars = m[1].toUpperCase();
+  const board = Array.from({ length: SIZE }, (_, y) =>
+    Array.from({ length: SIZE }, (_, x): CellValue => {
+      const c = chars[y * SIZE + x];
+      return c === "W" ? "white" : c === "B" ? "black" : null;
+    })
+  );
+  return { board, turn: m[2].toLowerCase() === "w" ? "white" : "black" };
+}
@@ -0,0 +1,307 @@
+import { describe, expect, it } from "vitest";
+import type { CellValue, GameState } from "../types";
+import {
+  IllegalMoveError,
+  applyMove,
+  boardResult,
+  checkWinner,
+  confirmPlacement,
+  createEmptyBoard,
+  createGame,
+  createVariantGame,
+  findFives,
+  generateMoves,
+  place,
+  playMove,
+  rotate,
+  rotateQuadrant,
+  rotateRandomly,
+  skipRotation,
+  skippableQuadrant,
+  undo,
+  winningPlacements,
+} from "./rules";
+
+// "W" = 白, "B" = 黒, "." = 空 の6行で盤面を作る
+function parse(rows: string[]): CellValue[][] {
+  return rows.map((row) =>
+    row.split("").map((c) => (c === "W" ? "white" : c === "B" ? "black" : null))
+  );
+}
+
+describe("rotateQuadrant", () => {
+  // 各象限の左上隅に白を置き、cw で右上隅へ / ccw で左下隅へ動くこと
+  const origins = [
+    { q: 0, ox: 0, oy: 0 },
+    { q: 1, ox: 3, oy: 0 },
+    { q: 2, ox: 0, oy: 3 },
+    { q: 3, ox: 3, oy: 3 },
+  ];
+
+  for (const { q, ox, oy } of origins) {
+    it(`rotates quadrant ${q} clockwise and counter-clockwise`, () => {
+      const b = createEmptyBoard();
+      b[oy][ox] = "white";
+      b[oy][ox + 1] = "black";
+
+      const cw = rotateQuadrant(b, q, "cw");
+      expect(cw[oy][ox + 2]).toBe("white");
+      expect(cw[oy + 1][ox + 2]).toBe("black");
+      expect(cw[oy][ox]).toBeNull();
+
+      const ccw = rotateQuadrant(b, q, "ccw");
+      expect(ccw[oy + 2][ox]).toBe("white");
+      expect(ccw[oy + 1][ox]).toBe("black");
+      expect(ccw[oy][ox]).toBeNull();
+    });
+  }
+
+  it("leaves other quadrants and the input board untouched", () => {
+    const b = parse(["W.....", "......", "......", "...B..", "......", "......"]);
+    const r = rotateQuadrant(b, 0, "cw");
+    expect(r[3][3]).toBe("black");
+    expect(b[0][0]).toBe("white");
+    expect(b[0][2]).toBeNull();
+  });
+
+  it("is undone by rotating the other way", () => {
+    const b = parse(["WB.W..", ".B....", "..W...", "......", "...BW.", "......"]);
+    for (let q = 0; q < 4; q++) {
+      expect(rotateQuadrant(rotateQuadrant(b, q, "cw"), q, "ccw")).toEqual(b);
+    }
+  });
+});
+
+describe("checkWinner", () => {
+  it("detects rows, columns and both diagonals", () => {
+    expect(checkWinner(parse(["WWWWW.", "......", "......", "......", "......", "......"]))).toBe("white");
+    expect(checkWinner(parse(["......", ".B....", ".B....", ".B....", ".B....", ".B...."]))).toBe("black");
+    expect(checkWinner(parse(["......", ".W....", "..W...", "...W..", "....W.", ".....W"]))).toBe("white");
+    expect(checkWinner(parse(["....B.", "...B..", "..B...", ".B....", "B.....", "......"]))).toBe("black");
+  });
+
+  it("returns null while the game is open", () => {
+    expect(checkWinner(parse(["WWWW..", "BBBB..", "......", "......", "......", "......"]))).toBeNull();
+  });
+
+  it("is a draw when both players have five at once", () => {
+    const b = parse(["WWWWW.", "BBBBB.", "......", "......", "......", "......"]);
+    expect(checkWinner(b)).toBe("draw");
+  });
+
+  it("is a draw when the board fills up without five", () => {
+    const b = parse(["WWBBWW", "BBWWBB", "WWBBWW", "BBWWBB", "WWBBWW", "BBWWBB"]);
+    expect(checkWinner(b)).toBe("draw");
+  });
+
+  it("tells why the board decided the game", () => {
+    expect(boardResult(parse(["WWWWW.", "BBBBB.", "......", "......", "......", "......"]))).toEqual({
+      winner: "draw",
+      reason: "doubleFive",
+    });
+    expect(boardResult(parse(["WWBBWW", "BBWWBB", "WWBBWW", "BBWWBB", "WWBBWW", "BBWWBB"]))?.reason).toBe("full");
+    expect(boardResult(parse(["WWWWW.", "......", "......", "......", "......", "......"]))?.reason).toBe("five");
+  });
+});
+
+describe("findFives", () => {
+  it("returns the cells of each five", () => {
+    const b = parse(["......", "....B.", "...B..", "..B...", ".B....", "B....."]);
+    expect(findFives(b)).toEqual([
+      {
+        player: "black",
+        cells: [
+          { x: 0, y: 5 },
+          { x: 1, y: 4 },
+          { x: 2, y: 3 },
+          { x: 3, y: 2 },
+          { x: 4, y: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it("reports both players' lines in a simultaneous draw", () => {
+    const lines = findFives(parse(["WWWWW.", "BBBBB.", "......", "......", "......", "......"]));
+    expect(lines.map((l) => l.player)).toEqual(["white", "black"]);
+    expect(lines[1].cells.every((c) => c.y === 1)).toBe(true);
+  });
+
+  it("counts six in a row as two overlapping fives", () => {
+    expect(findFives(parse(["WWWWWW", "......", "......", "......", "......", "......"]))).toHaveLength(2);
+    expect(findFives(parse(["WWWW..", "BBBB..", "......", "......", "......", "......"]))).toEqual([]);
+  });
+});
+
+describe("winningPlacements", () => {
+  it("finds the cells that win after some rotation", () => {
+    // 白が a1〜d1 に4つ。e1 に置けば回さない象限を選んで勝ち
+    const b = parse(["WWWW..", "......", "......", "......", "......", "......"]);
+    const cells = winningPlacements(b, "white");
+    expect(cells).toContainEqual({ x: 4, y: 0 });
+    expect(winningPlacements(b, "black")).toEqual([]);
+  });
+
+  it("counts wins that come from the rotation alone", () => {
+    // 左上象限を左に回すと上の3つが左端の列に立ち、下の2つと5つ並ぶ。どこに置いても勝ち
+    const b = parse(["WWW...", "......", "......", "W.....", "W.....", "......"]);
+    expect(winningPlacements(b, "white")).toHaveLength(31);
+  });
+});
+
+describe("applyMove / generateMoves", () => {
+  it("generates 8 moves per empty cell", () => {
+    expect(generateMoves(createEmptyBoard())).toHaveLength(36 * 8);
+    const b = parse(["WB....", "......", "......", "......", "......", "......"]);
+    expect(generateMoves(b)).toHaveLength(34 * 8);
+  });
+
+  it("can create simultaneous fives by rotation", () => {
+    // 右上象限を回すと白と黒の両方が5つ揃う
+    const b = parse(["WWW.BW", "BBB.BW", "......", "......", "......", "......"]);
+    const r = applyMove(b, "black", { pos: { x: 5, y: 5 }, quadrant: 1, dir: "ccw" });
+    expect(r.board[0][3]).toBe("white");
+    expect(r.board[1][3]).toBe("black");
+    expect(r.winner).toBe("draw");
+  });
+});
+
+describe("GameState transitions", () => {
+  it("places, rotates and hands the turn over", () => {
+    let s = createGame();
+    s = place(s, { x: 1, y: 1 });
+    expect(s.pending).toEqual({ x: 1, y: 1 });
+    expect(s.board[1][1]).toBeNull();
+
+    s = confirmPlacement(s);
+    expect(s.phase).toBe("rotate");
+
+    s = rotate(s, 3, "cw");
+    expect(s.board[1][1]).toBe("white");
+    expect(s.turn).toBe("black");
+    expect(s.phase).toBe("place");
+    expect(s.pending).toBeNull();
+    expect(s.moveNumber).toBe(1);
+  });
+
+  it("does not mutate the previous state", () => {
+    const s0 = createGame();
+    const s1 = playMove(s0, { pos: { x: 0, y: 0 }, quadrant: 3, dir: "cw" });
+    expect(s0.board[0][0]).toBeNull();
+    expect(s0.turn).toBe("white");
+    expect(s1.board[0][0]).toBe("white");
+  });
+
+  it("undo steps back through rotate and pending placement", () => {
+    const s0 = createGame();
+    const s1 = confirmPlacement(place(s0, { x: 2, y: 2 }));
+    const s2 = undo(s1);
+    expect(s2.phase).toBe("place");
+    expect(s2.pending).toEqual({ x: 2, y: 2 });
+    const s3 = undo(s2);
+    expect(s3.pending).toBeNull();
+    expect(() => undo(s3)).toThrow(IllegalMoveError);
+  });
+
+  it("keeps the winner's turn and records the result", () => {
+    const board = parse(["WWWW..", "BBBB..", "......", "......", "......", "......"]);
+    const s = playMove(createGame(board), { pos: { x: 4, y: 0 }, quadrant: 3, dir: "cw" });
+    expect(s.winner).toBe("white");
+    expect(s.turn).toBe("white");
+  });
+
+  describe("rejects illegal moves", () => {
+    const occupied: GameState = createGame(parse(["W.....", "......", "......", "......", "......", "......"]), "black");
+
+    it("on an occupied cell", () => {
+      expect(() => place(occupied, { x: 0, y: 0 })).toThrow(IllegalMoveError);
+    });
+
+    it("outside the board", () => {
+      expect(() => place(occupied, { x: 6, y: 0 })).toThrow(IllegalMoveError);
+      expect(() => place(occupied, { x: 0, y: -1 })).toThrow(IllegalMoveError);
+    });
+
+    it("rotating before placing", () => {
+      expect(() => rotate(occupied, 0, "cw")).toThrow(IllegalMoveError);
+      expect(() => confirmPlacement(occupied)).toThrow(IllegalMoveError);
+    });
+
+    it("placing during the rotate phase", () => {
+      const s = confirmPlacement(place(occupied, { x: 1, y: 1 }));
+      expect(() => place(s, { x: 2, y: 2 })).toThrow(IllegalMoveError);
+    });
+
+    it("with an invalid quadrant", () => {
+      const s = confirmPlacement(place(occupied, { x: 1, y: 1 }));
+      expect(() => rotate(s, 4, "cw")).toThrow(IllegalMoveError);
+    });
+
+    it("after the game is over", () => {
+      const won = createGame(parse(["WWWWW.", "......", "......", "......", "......", "......"]), "black");
+      expect(won.winner).toBe("white");
+      expect(() => place(won, { x: 5, y: 5 })).toThrow(IllegalMoveError);
+    });
+  });
+});
+
+describe("variants", () => {
+  const xl = { quadrants: 3, winLength: 5, skipRotation: false, randomRotation: false } as const;
+
+  it("rotates the quadrants of a 9x9 board counted from the top left", () => {
+    const b = createEmptyBoard(9);
+    b[3][6] = "white";
+    const cw = rotateQuadrant(b, 5, "cw");
+    expect(cw[3][8]).toBe("white");
+    expect(cw[3][6]).toBeNull();
+    expect(generateMoves(b)).toHaveLength(80 * 18);
+  });
+
+  it("judges the win length of the variant", () => {
+    const four = parse(["WWWW..", "......", "......", "......", "......", "......"]);
+    expect(checkWinner(four)).toBeNull();
+    expect(checkWinner(four, 4)).toBe("white");
+    expect(findFives(four, 4)).toHaveLength(1);
+
+    let s = createGame(parse(["WWW...", "BBB...", "......", "......", "......", "......"]), "white", {
+      ...xl,
+      quadrants: 2,
+      winLength: 4,
+    });
+    s = playMove(s, { pos: { x: 3, y: 0 }, quadrant: 3, dir: "cw" });
+    expect(s.winner).toBe("white");
+  });
+
+  it("plays on the XL board and rejects quadrants outside it", () => {
+    let s = createVariantGame(xl);
+    expect(s.board).toHaveLength(9);
+    s = playMove(s, { pos: { x: 8, y: 8 }, quadrant: 8, dir: "ccw" });
+    expect(s.board[6][8]).toBe("white");
+    const r = confirmPlacement(place(s, { x: 0, y: 0 }));
+    expect(() => rotate(r, 9, "cw")).toThrow(IllegalMoveError);
+    expect(() => createGame(createEmptyBoard(), "white", xl)).toThrow(IllegalMoveError);
+  });
+
+  it("skips the rotation only with an unchanged quadrant", () => {
+    const board = parse([".W.B..", "W.WB..", ".W.B..", "W..B.B", "W.....", "W..B.B"]);
+    // 左上と右下は回しても同じ形。置いた左下と、右上は形が変わる
+    let s = createGame(board, "white", { ...xl, quadrants: 2, skipRotation: true });
+    s = confirmPlacement(place(s, { x: 2, y: 3 }));
+    expect(skippableQuadrant(s)).toBe(0);
+    const skipped = skipRotation(s);
+    expect(skipped.board[3][2]).toBe("white");
+    expect(skipped.board[0]).toEqual(board[0]);
+
+    const standard = confirmPlacement(place(createGame(), { x: 0, y: 0 }));
+    expect(skippableQuadrant(standard)).toBeNull();
+    expect(() => skipRotation(standard)).toThrow(IllegalMoveError);
+  });
+
+  it("draws the rotation in the random variant", () => {
+    const s = confirmPlacement(place(createVariantGame({ ...xl, randomRotation: true }), { x: 0, y: 0 }));
+    // 最後の候補（右下の象限を反時計回り）
+    const r = rotateRandomly(s, () => 0.999);
+    expect(r.board[0][0]).toBe("white");
+    expect(r.moveNumber).toBe(1);
+  });
+});
@@ -0,0 +1,348 @@
+import type {
+  CellValue,
+  Dir,
+  GameResult,
+  GameState,
+  Grid,
+  Move,
+  MultiState,
+  Player,
+  Pos,
+  Stone,
+  Variant,
+  WinLine,
+  Winner,
+} from "../types";
+import { STANDARD_VARIANT, boardSize, drawRotation, quadrantCount } from "./variant";
+
+/* =========================
+   Board
+========================= */
+
+// 通常盤の1辺と並べる数。変種では盤の大きさは board.length、並べる数は Variant から取る
+export const SIZE = 6;
+export const WIN_LENGTH = 5;
+
+export function createEmptyBoard(size: number = SIZE): CellValue[][] {
+  return Array.from({ length: size }, () => Array<CellValue>(size).fill(null));
+}
+
+export function cloneBoard(b: Grid): CellValue[][] {
+  return b.map((row) => row.slice());
+}
+
+export function opponent(p: Player): Player {
+  return p === "white" ? "black" : "white";
+}
+
+export function inBounds(x: number, y: number, size: number = SIZE) {
+  return x >= 0 && x < size && y >= 0 && y < size;
+}
+
+// 象限の左上のマス。象限は左上から横に数える（6×6 なら 0=左上,1=右上,2=左下,3=右下）
+export function quadrantOrigin(size: number, quadrant: number): Pos {
+  const n = size / 3;
+  return { x: (quadrant % n) * 3, y: Math.floor(quadrant / n) * 3 };
+}
+
+export function rotateQuadrant(board: Grid, quadrant: number, dir: Dir): CellValue[][] {
+  const b = cloneBoard(board);
+  const { x: ox, y: oy } = quadrantOrigin(board.length, quadrant);
+
+  const m: CellValue[][] = Array.from({ length: 3 }, (_, y) =>
+    Array.from({ length: 3 }, (_, x) => b[oy + y][ox + x])
+  );
+
+  const r: CellValue[][] = Array.from({ length: 3 }, () => Array<CellValue>(3).fill(null));
+
+  for (let y = 0; y < 3; y++) {
+    for (let x = 0; x < 3; x++) {
+      if (dir === "cw") r[x][2 - y] = m[y][x];
+      else r[2 - x][y] = m[y][x];
+    }
+  }
+
+  for (let y = 0; y < 3; y++) {
+    for (let x = 0; x < 3; x++) {
+      b[oy + y][ox + x] = r[y][x];
+    }
+  }
+  return b;
+}
+
+// 横・縦・斜め（右下がり）・斜め（右上がり）
+const LINE_DIRS = [
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: 1, dy: 1 },
+  { dx: 1, dy: -1 },
+] as const;
+
+// side は一緒に数える石の色（ふつうは1色、チーム戦では味方の色すべて）
+function isLineFrom(
+  board: Grid,
+  side: readonly Stone[],
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  length: number
+): boolean {
+  for (let k = 0; k < length; k++) {
+    const nx = x + dx * k;
+    const ny = y + dy * k;
+    if (!inBounds(nx, ny, board.length)) return false;
+    const c = board[ny][nx];
+    if (c === null || !side.includes(c)) return false;
+  }
+  return true;
+}
+
+// side の石で winLength 個の並びがあるか
+export function hasLine(board: Grid, side: readonly Stone[], winLength: number = WIN_LENGTH): boolean {
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board.length; x++) {
+      for (const { dx, dy } of LINE_DIRS) {
+        if (isLineFrom(board, side, x, y, dx, dy, winLength)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+// 名前は通常ルールのまま。p の石で winLength 個の並びがあるか
+export function hasFive(board: Grid, p: Stone, winLength: number = WIN_LENGTH): boolean {
+  return hasLine(board, [p], winLength);
+}
+
+// 盤上の5つ並び（winLength 個の並び）をすべて返す（6つ並びは重なった2本として数える）。
+// sides を省略すると色ごと。チーム戦では味方の色をまとめた組を渡す（player は並びの端の石）
+export function findFives(
+  board: Grid,
+  winLength: number = WIN_LENGTH,
+  sides?: readonly (readonly Stone[])[]
+): WinLine[] {
+  const lines: WinLine[] = [];
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board.length; x++) {
+      const p = board[y][x];
+      if (!p) continue;
+      const side = sides?.find((s) => s.includes(p)) ?? [p];
+      for (const { dx, dy } of LINE_DIRS) {
+        if (!isLineFrom(board, side, x, y, dx, dy, winLength)) continue;
+        lines.push({
+          player: p,
+          cells: Array.from({ length: winLength }, (_, k) => ({ x: x + dx * k, y: y + dy * k })),
+        });
+      }
+    }
+  }
+  return lines;
+}
+
+export function isFull(board: Grid): boolean {
+  return board.every((row) => row.every((c) => c !== null));
+}
+
+// 両者同時に5つ揃ったら引き分け。揃わずに盤が埋まっても引き分け
+export function checkWinner(board: Grid, winLength: number = WIN_LENGTH): Winner | null {
+  return boardResult(board, winLength)?.winner ?? null;
+}
+
+// 盤面だけで決まる決着（5つ並び・同時の5つ並び・満杯）とその理由
+export function boardResult(board: Grid, winLength: number = WIN_LENGTH): GameResult | null {
+  const w = hasFive(board, "white", winLength);
+  const b = hasFive(board, "black", winLength);
+  if (w && b) return { winner: "draw", reason: "doubleFive" };
+  if (w) return { winner: "white", reason: "five" };
+  if (b) return { winner: "black", reason: "five" };
+  if (isFull(board)) return { winner: "draw", reason: "full" };
+  return null;
+}
+
+// 盤面以外で決まる決着（投了・合意・時間切れ）か
+export function isAdjudicated(result: GameResult): boolean {
+  return result.reason === "resign" || result.reason === "agreement" || result.reason === "timeout";
+}
+
+/* =========================
+   Moves
+========================= */
+
+export function applyMove(
+  board: Grid,
+  player: Stone,
+  move: Move,
+  winLength: number = WIN_LENGTH
+): { board: CellValue[][]; winner: Winner | null } {
+  const placed = cloneBoard(board);
+  placed[move.pos.y][move.pos.x] = player;
+  const rotated = rotateQuadrant(placed, move.quadrant, move.dir);
+  return { board: rotated, winner: checkWinner(rotated, winLength) };
+}
+
+export function generateMoves(board: Grid): Move[] {
+  const moves: Move[] = [];
+  const quadrants = (board.length / 3) ** 2;
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board.length; x++) {
+      if (board[y][x] !== null) continue;
+      for (let q = 0; q < quadrants; q++) {
+        moves.push({ pos: { x, y }, quadrant: q, dir: "cw" });
+        moves.push({ pos: { x, y }, quadrant: q, dir: "ccw" });
+      }
+    }
+  }
+  return moves;
+}
+
+// p がそこに置けば、どれかの回転で p の勝ちになるマス（相手の脅威の表示用）
+export function winningPlacements(board: Grid, p: Player, winLength: number = WIN_LENGTH): Pos[] {
+  const out: Pos[] = [];
+  const quadrants = Array.from({ length: (board.length / 3) ** 2 }, (_, q) => q);
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board.length; x++) {
+      if (board[y][x] !== null) continue;
+      const pos = { x, y };
+      const wins = quadrants.some((quadrant) =>
+        (["cw", "ccw"] as const).some((dir) => applyMove(board, p, { pos, quadrant, dir }, winLength).winner === p)
+      );
+      if (wins) out.push(pos);
+    }
+  }
+  return out;
+}
+
+// 回しても盤が変わらない象限（空・点対称の形）。回転を省略できる変種で使う
+export function invariantQuadrants(board: Grid): number[] {
+  const out: number[] = [];
+  for (let q = 0; q < (board.length / 3) ** 2; q++) {
+    const { x: ox, y: oy } = quadrantOrigin(board.length, q);
+    const rotated = rotateQuadrant(board, q, "cw");
+    let same = true;
+    for (let y = oy; y < oy + 3 && same; y++) for (let x = ox; x < ox + 3; x++) same &&= rotated[y][x] === board[y][x];
+    if (same) out.push(q);
+  }
+  return out;
+}
+
+/* =========================
+   GameState transitions
+========================= */
+
+export class IllegalMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IllegalMoveError";
+  }
+}
+
+export function createGame(
+  board: Grid = createEmptyBoard(),
+  turn: Player = "white",
+  variant: Variant = STANDARD_VARIANT
+): GameState {
+  if (board.length !== boardSize(variant)) {
+    throw new IllegalMoveError(`board size ${board.length} does not match variant (${boardSize(variant)})`);
+  }
+  return {
+    board,
+    turn,
+    phase: "place",
+    pending: null,
+    winner: checkWinner(board, variant.winLength),
+    moveNumber: 0,
+    variant,
+  };
+}
+
+// 変種の空の盤から始める
+export function createVariantGame(variant: Variant): GameState {
+  return createGame(createEmptyBoard(boardSize(variant)), "white", variant);
+}
+
+// 置く・確定する・戻す操作は 3〜4人対戦の局面（MultiState）にも使う
+type TurnState = GameState | MultiState;
+
+export function canPlace(state: TurnState, pos: Pos): boolean {
+  return (
+    !state.winner &&
+    state.phase === "place" &&
+    inBounds(pos.x, pos.y, state.board.length) &&
+    state.board[pos.y][pos.x] === null
+  );
+}
+
+// 仮置き（place フェーズ中は何度でも置き直せる）
+export function place<S extends TurnState>(state: S, pos: Pos): S {
+  if (state.winner) throw new IllegalMoveError("game is over");
+  if (state.phase !== "place") throw new IllegalMoveError(`phase=${state.phase}`);
+  if (!inBounds(pos.x, pos.y, state.board.length)) throw new IllegalMoveError(`out of bounds: (${pos.x}, ${pos.y})`);
+  if (state.board[pos.y][pos.x] !== null) {
+    throw new IllegalMoveError(`cell is occupied: (${pos.x}, ${pos.y})`);
+  }
+  return { ...state, pending: pos };
+}
+
+// 仮置きを確定して回転フェーズへ
+export function confirmPlacement<S extends TurnState>(state: S): S {
+  if (state.winner) throw new IllegalMoveError("game is over");
+  if (state.phase !== "place") throw new IllegalMoveError(`phase=${state.phase}`);
+  if (!state.pending) throw new IllegalMoveError("no pending placement");
+  return { ...state, phase: "rotate" };
+}
+
+// 回転して1手を確定。勝敗判定と手番交代まで行う
+export function rotate(state: GameState, quadrant: number, dir: Dir): GameState {
+  if (state.winner) throw new IllegalMoveError("game is over");
+  if (state.phase !== "rotate") throw new IllegalMoveError(`phase=${state.phase}`);
+  if (!state.pending) throw new IllegalMoveError("no pending placement");
+  if (!Number.isInteger(quadrant) || quadrant < 0 || quadrant >= quadrantCount(state.variant)) {
+    throw new IllegalMoveError(`invalid quadrant: ${quadrant}`);
+  }
+
+  const r = applyMove(state.board, state.turn, { pos: state.pending, quadrant, dir }, state.variant.winLength);
+  return {
+    ...state,
+    board: r.board,
+    turn: r.winner ? state.turn : opponent(state.turn),
+    phase: "place",
+    pending: null,
+    winner: r.winner,
+    moveNumber: state.moveNumber + 1,
+  };
+}
+
+// 仮置きの石を置いた盤で、回さずに済む象限（回転を省略できない変種・省略できない盤なら null）
+export function skippableQuadrant(state: TurnState): number | null {
+  if (!state.variant.skipRotation || state.phase !== "rotate" || !state.pending) return null;
+  const placed = cloneBoard(state.board);
+  placed[state.pending.y][state.pending.x] = state.turn;
+  return invariantQuadrants(placed)[0] ?? null;
+}
+
+// 回転を省略して1手を確定。棋譜には盤の変わらない象限を回した手として残る
+export function skipRotation(state: GameState): GameState {
+  const q = skippableQuadrant(state);
+  if (q === null) throw new IllegalMoveError("rotation cannot be skipped");
+  return rotate(state, q, "cw");
+}
+
+// ランダム回転の変種：回す象限と向きを引いて1手を確定
+export function rotateRandomly(state: GameState, random: () => number = Math.random): GameState {
+  const { quadrant, dir } = drawRotation(state.variant, random);
+  return rotate(state, quadrant, dir);
+}
+
+// 確定前の操作を1段階戻す（回転フェーズ→置きフェーズ→仮置きなし）
+export function undo<S extends TurnState>(state: S): S {
+  if (state.winner) throw new IllegalMoveError("game is over");
+  if (state.phase === "rotate") return { ...state, phase: "place" };
+  if (state.pending) return { ...state, pending: null };
+  throw new IllegalMoveError("nothing to undo");
+}
+
+// place → confirmPlacement → rotate をまとめて行う
+export function playMove(state: GameState, move: Move): GameState {
+  return rotate(confirmPlacement(place(state, move.pos)), move.quadrant, move.dir);
+}
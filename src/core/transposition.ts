@@ -0,0 +1,61 @@
+import type { CanonicalKey } from "./bitboard";
+
+/*
+  置換表。正規化した局面（bitboard.ts の canonical）ごとに、読んだ深さと評価値を覚えておく。
+  大きさは固定で、同じ場所に来た局面は上書きする（深く読んだ方を残す）。
+  ハッシュが衝突しても、局面そのもの（4 つの数）を比べてから使う。
+*/
+
+// exact: 正確な値 / lower: これ以上（β カット） / upper: これ以下（α を超えなかった）
+export type Bound = "exact" | "lower" | "upper";
+
+export type TableEntry = { depth: number; score: number; bound: Bound };
+
+export type TranspositionTable = {
+  probe: (key: CanonicalKey, hash: number) => TableEntry | null;
+  store: (key: CanonicalKey, hash: number, entry: TableEntry) => void;
+  clear: () => void;
+  // 埋まっている数（テスト・計測用）
+  size: () => number;
+};
+
+const BOUNDS: Bound[] = ["exact", "lower", "upper"];
+
+export function createTranspositionTable(sizeBits = 18): TranspositionTable {
+  const n = 1 << sizeBits;
+  const mask = n - 1;
+  const keys = new Int32Array(n * 4);
+  const scores = new Float64Array(n);
+  // 0 は空き。読んだ深さ + 1 を入れる
+  const depths = new Uint8Array(n);
+  const bounds = new Uint8Array(n);
+  let used = 0;
+
+  function matches(i: number, key: CanonicalKey): boolean {
+    const o = i * 4;
+    return keys[o] === key[0] && keys[o + 1] === key[1] && keys[o + 2] === key[2] && keys[o + 3] === key[3];
+  }
+
+  return {
+    probe(key, hash) {
+      const i = hash & mask;
+      if (depths[i] === 0 || !matches(i, key)) return null;
+      return { depth: depths[i] - 1, score: scores[i], bound: BOUNDS[bounds[i]] };
+    },
+    store(key, hash, { depth, score, bound }) {
+      const i = hash & mask;
+      // 別の局面を浅い読みで追い出さない
+      if (depths[i] !== 0 && !matches(i, key) && depths[i] - 1 > depth) return;
+      if (depths[i] === 0) used++;
+      keys.set(key, i * 4);
+      scores[i] = score;
+      depths[i] = depth + 1;
+      bounds[i] = BOUNDS.indexOf(bound);
+    },
+    clear() {
+      depths.fill(0);
+      used = 0;
+    },
+    size: () => used,
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { STANDARD_VARIANT, drawRotation, isStandardVariant, parseVariant, variantLabel, variantToText } from "./variant";
+
+describe("variant", () => {
+  it("round-trips through text", () => {
+    const xl = { quadrants: 3, winLength: 6, skipRotation: true, randomRotation: true } as const;
+    expect(variantToText(xl)).toBe("9x9/6/skip/random");
+    expect(parseVariant("9x9/6/skip/random")).toEqual(xl);
+    expect(parseVariant(variantToText(STANDARD_VARIANT))).toEqual(STANDARD_VARIANT);
+    expect(isStandardVariant(parseVariant("6x6/5")!)).toBe(true);
+  });
+
+  it("rejects unknown boards, flags and win lengths that do not fit", () => {
+    for (const bad of ["", "7x7/5", "6x6", "6x6/7", "6x6/2", "9x9/5/spin", "6x6/5/skip/skip"]) {
+      expect(parseVariant(bad)).toBeNull();
+    }
+  });
+
+  it("draws every rotation of the board", () => {
+    const xl = { ...STANDARD_VARIANT, quadrants: 3 } as const;
+    const drawn = new Set(Array.from({ length: 18 }, (_, i) => JSON.stringify(drawRotation(xl, () => i / 18))));
+    expect(drawn.size).toBe(18);
+    expect(variantLabel(xl)).toBe("9×9・5目並べ");
+  });
+});
@@ -0,0 +1,85 @@
+import type { Dir, Variant } from "../types";
+
+/*
+  ルールの変種。
+    quadrants      1辺の象限数（2 = 6×6 の通常盤、3 = 9×9 の Pentago XL）
+    winLength      何個並べば勝ちか
+    skipRotation   空の象限・回しても変わらない象限があれば、回さずに手を終えられる
+    randomRotation 回す象限と向きはランダムに決まる
+  棋譜などでのテキスト表記： "<盤>/<並べる数>[/skip][/random]"  例) "9x9/5/skip"
+*/
+
+export const STANDARD_VARIANT: Variant = {
+  quadrants: 2,
+  winLength: 5,
+  skipRotation: false,
+  randomRotation: false,
+};
+
+// 選べる並べる数（盤の1辺を超えるものは除く）
+export const WIN_LENGTH_CHOICES = [4, 5, 6, 7] as const;
+
+export function boardSize(v: Variant): number {
+  return v.quadrants * 3;
+}
+
+export function quadrantCount(v: Variant): number {
+  return v.quadrants * v.quadrants;
+}
+
+export function isValidVariant(v: Variant): boolean {
+  return (
+    (v.quadrants === 2 || v.quadrants === 3) &&
+    Number.isInteger(v.winLength) &&
+    v.winLength >= 3 &&
+    v.winLength <= boardSize(v)
+  );
+}
+
+export function isStandardVariant(v: Variant): boolean {
+  return (
+    v.quadrants === STANDARD_VARIANT.quadrants &&
+    v.winLength === STANDARD_VARIANT.winLength &&
+    v.skipRotation === STANDARD_VARIANT.skipRotation &&
+    v.randomRotation === STANDARD_VARIANT.randomRotation
+  );
+}
+
+export function variantToText(v: Variant): string {
+  const size = boardSize(v);
+  const parts = [`${size}x${size}`, String(v.winLength)];
+  if (v.skipRotation) parts.push("skip");
+  if (v.randomRotation) parts.push("random");
+  return parts.join("/");
+}
+
+// 読めない・ありえない組み合わせなら null
+export function parseVariant(text: string): Variant | null {
+  const [board, win, ...flags] = text.trim().toLowerCase().split("/");
+  const quadrants = board === "6x6" ? 2 : board === "9x9" ? 3 : null;
+  if (!quadrants || !/^\d+$/.test(win ?? "")) return null;
+  if (flags.some((f) => f !== "skip" && f !== "random") || new Set(flags).size !== flags.length) return null;
+
+  const v: Variant = {
+    quadrants,
+    winLength: Number(win),
+    skipRotation: flags.includes("skip"),
+    randomRotation: flags.includes("random"),
+  };
+  return isValidVariant(v) ? v : null;
+}
+
+export function variantLabel(v: Variant): string {
+  const size = boardSize(v);
+  const parts = [`${size}×${size}`, `${v.winLength}目並べ`];
+  if (v.skipRotation) parts.push("回転省略あり");
+  if (v.randomRotation) parts.push("ランダム回転");
+  return parts.join("・");
+}
+
+// ランダム回転の変種で、回す象限と向きを引く
+export function drawRotation(v: Variant, random: () => number = Math.random): { quadrant: number; dir: Dir } {
+  const n = quadrantCount(v);
+  const i = Math.min(n * 2 - 1, Math.floor(random() * n * 2));
+  return { quadrant: Math.floor(i / 2), dir: i % 2 === 0 ? "cw" : "ccw" };
+}
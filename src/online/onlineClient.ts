@@ -0,0 +1,88 @@
+import type { ClientMessage, ServerMessage } from "./protocol";
+
+export type ConnectionStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export type OnlineClient = {
+  send: (msg: ClientMessage) => void;
+  // 席に着いたら呼ぶ。切断から戻ったときにこの席へ reconnect する
+  setSeat: (room: string, token: string) => void;
+  close: () => void;
+};
+
+type Handlers = {
+  onMessage: (msg: ServerMessage) => void;
+  onStatus: (status: ConnectionStatus) => void;
+};
+
+const RETRY_MS = [500, 1000, 2000, 4000, 8000];
+
+// 切断されたら間隔を空けて自動で繋ぎ直す。close() するまで諦めない
+export function createOnlineClient(url: string, { onMessage, onStatus }: Handlers): OnlineClient {
+  let ws: WebSocket | null = null;
+  let seat: { room: string; token: string } | null = null;
+  let closed = false;
+  let retries = 0;
+  let retryTimer: number | null = null;
+  // 繋がる前に送ろうとしたもの
+  let queue: ClientMessage[] = [];
+
+  function open() {
+    onStatus(retries === 0 ? "connecting" : "reconnecting");
+    const sock = new WebSocket(url);
+    ws = sock;
+
+    sock.onopen = () => {
+      retries = 0;
+      onStatus("open");
+      if (seat) sock.send(JSON.stringify({ type: "reconnect", ...seat } satisfies ClientMessage));
+      for (const m of queue) sock.send(JSON.stringify(m));
+      queue = [];
+    };
+
+    sock.onmessage = (e: MessageEvent<string>) => {
+      try {
+        onMessage(JSON.parse(e.data) as ServerMessage);
+      } catch (err) {
+        if (!(err instanceof SyntaxError)) throw err;
+      }
+    };
+
+    sock.onclose = () => {
+      if (ws !== sock) return;
+      ws = null;
+      if (closed) return;
+      onStatus("reconnecting");
+      const delay = RETRY_MS[Math.min(retries, RETRY_MS.length - 1)];
+      retries++;
+      retryTimer = window.setTimeout(open, delay);
+    };
+  }
+
+  open();
+
+  return {
+    send(msg) {
+      if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+      else queue.push(msg);
+    },
+    setSeat(room, token) {
+      seat = { room, token };
+    },
+    close() {
+      closed = true;
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      ws?.close();
+      ws = null;
+      onStatus("closed");
+    },
+  };
+}
+
+// 既定の接続先：VITE_ONLINE_URL があればそれ、なければ同じホストの開発サーバー
+export function defaultServerUrl(port: number): string {
+  const fromEnv = import.meta.env.VITE_ONLINE_URL as string | undefined;
+  if (fromEnv) return fromEnv;
+  if (typeof window === "undefined") return `ws://localhost:${port}`;
+  const scheme = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${scheme}://${window.location.hostname || "localhost"}:${port}`;
+}
@@ -0,0 +1,94 @@
+import { decodeSignal, encodeSignal, parsePeerMessage, type PeerMessage } from "./peerProtocol";
+
+export type PeerStatus = "idle" | "waiting" | "open" | "closed";
+
+export type PeerLink = {
+  // host：招待用の文字列を作る
+  createOffer: () => Promise<string>;
+  // guest：招待を受けて返事用の文字列を作る
+  acceptOffer: (offer: string) => Promise<string>;
+  // host：返事を受けて接続する
+  acceptAnswer: (answer: string) => Promise<void>;
+  send: (msg: PeerMessage) => void;
+  close: () => void;
+};
+
+type Handlers = {
+  onMessage: (msg: PeerMessage) => void;
+  onStatus: (status: PeerStatus) => void;
+};
+
+// 同じ LAN 内なら STUN なしでも繋がるが、家庭のルーター越しのために公開 STUN を使う
+const ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+const ICE_GATHER_MS = 3000;
+
+export class SignalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignalError";
+  }
+}
+
+export function createPeerLink({ onMessage, onStatus }: Handlers): PeerLink {
+  const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+  let channel: RTCDataChannel | null = null;
+
+  function attach(ch: RTCDataChannel) {
+    channel = ch;
+    ch.onopen = () => onStatus("open");
+    ch.onclose = () => onStatus("closed");
+    ch.onmessage = (e: MessageEvent<string>) => {
+      const msg = parsePeerMessage(e.data);
+      if (msg) onMessage(msg);
+    };
+  }
+
+  pc.ondatachannel = (e) => attach(e.channel);
+  pc.onconnectionstatechange = () => {
+    if (pc.connectionState === "failed" || pc.connectionState === "disconnected") onStatus("closed");
+  };
+
+  // 手動でやり取りするので、候補（ICE）を集め終えた SDP をまとめて渡す
+  function gathered(): Promise<string> {
+    return new Promise((resolve) => {
+      const done = () => resolve(pc.localDescription?.sdp ?? "");
+      if (pc.iceGatheringState === "complete") return done();
+      const timer = window.setTimeout(done, ICE_GATHER_MS);
+      pc.onicegatheringstatechange = () => {
+        if (pc.iceGatheringState !== "complete") return;
+        window.clearTimeout(timer);
+        done();
+      };
+    });
+  }
+
+  return {
+    async createOffer() {
+      attach(pc.createDataChannel("pentago"));
+      await pc.setLocalDescription(await pc.createOffer());
+      onStatus("waiting");
+      return encodeSignal("offer", await gathered());
+    },
+    async acceptOffer(offer) {
+      const sdp = decodeSignal(offer, "offer");
+      if (!sdp) throw new SignalError("招待コードの形式が違います");
+      await pc.setRemoteDescription({ type: "offer", sdp });
+      await pc.setLocalDescription(await pc.createAnswer());
+      onStatus("waiting");
+      return encodeSignal("answer", await gathered());
+    },
+    async acceptAnswer(answer) {
+      const sdp = decodeSignal(answer, "answer");
+      if (!sdp) throw new SignalError("返事コードの形式が違います");
+      await pc.setRemoteDescription({ type: "answer", sdp });
+    },
+    send(msg) {
+      if (channel?.readyState === "open") channel.send(JSON.stringify(msg));
+    },
+    close() {
+      channel?.close();
+      pc.close();
+      onStatus("closed");
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, pushMove } from "../core/history";
+import { IllegalMoveError, createGame } from "../core/rules";
+import { applyRemoteMove, decodeSignal, encodeSignal, historyFromMoves, parsePeerMessage } from "./peerProtocol";
+
+const move = (x: number, y: number) => ({ pos: { x, y }, quadrant: 3, dir: "cw" }) as const;
+
+describe("peerProtocol", () => {
+  it("parses only well-formed messages", () => {
+    expect(parsePeerMessage(JSON.stringify({ type: "move", move: move(1, 2), ply: 0 }))).toEqual({
+      type: "move",
+      move: move(1, 2),
+      ply: 0,
+    });
+    expect(parsePeerMessage(JSON.stringify({ type: "hello", hostSide: "black" }))).toEqual({
+      type: "hello",
+      hostSide: "black",
+    });
+    expect(parsePeerMessage(JSON.stringify({ type: "move", move: { pos: { x: 1 } }, ply: 0 }))).toBeNull();
+    expect(parsePeerMessage(JSON.stringify({ type: "resync", moves: [{ player: "red" }] }))).toBeNull();
+    expect(parsePeerMessage("{oops")).toBeNull();
+  });
+
+  it("applies the opponent's move only when it is legal and their turn", () => {
+    const h = createHistory(createGame());
+    expect(() => applyRemoteMove(h, "black", move(0, 0))).toThrow(IllegalMoveError);
+
+    const h1 = applyRemoteMove(h, "white", move(0, 0));
+    expect(h1.moves).toEqual([{ player: "white", ...move(0, 0) }]);
+    expect(() => applyRemoteMove(h1, "black", move(0, 0))).toThrow(IllegalMoveError);
+    expect(() => applyRemoteMove(h1, "black", { ...move(1, 1), quadrant: 7 })).toThrow(IllegalMoveError);
+  });
+
+  it("replays a resynced move list before trusting it", () => {
+    const good = pushMove(createHistory(createGame()), { player: "white", ...move(0, 0) }).moves.slice();
+    expect(historyFromMoves(createGame(), good).cursor).toBe(1);
+    expect(() => historyFromMoves(createGame(), [{ player: "black", ...move(0, 0) }])).toThrow(IllegalMoveError);
+  });
+
+  it("round-trips offer/answer blobs and rejects the wrong kind", () => {
+    const sdp = "v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\na=ice-ufrag:ÄB\r\n";
+    const code = encodeSignal("offer", sdp);
+    expect(code).toMatch(/^PTG1\.[A-Za-z0-9_-]+$/);
+    expect(decodeSignal(`  ${code.slice(0, 20)}\n${code.slice(20)} `, "offer")).toBe(sdp);
+    expect(decodeSignal(code, "answer")).toBeNull();
+    expect(decodeSignal("PTG1.!!!", "offer")).toBeNull();
+  });
+});
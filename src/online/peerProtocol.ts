@@ -0,0 +1,110 @@
+import { pushMove, stateAt, type History, type MoveRecord } from "../core/history";
+import { IllegalMoveError, playMove } from "../core/rules";
+import type { Move, Player } from "../types";
+import { isMove, isObject, isPlayer } from "./protocol";
+
+/*
+  サーバーなしの P2P 対戦（WebRTC DataChannel）。
+  接続情報（offer/answer）は文字列にして、コピー＆ペーストで相手に渡す。
+  どちらが正というサーバーがいないので、相手から来た手は必ずルールで打ち直してから盤面に反映する。
+  手数がずれたときは招待した側（host）の棋譜に合わせる。
+*/
+
+// ブラウザ ↔ ブラウザ
+export type PeerMessage =
+  // 接続直後に host が送る。guest は hostSide の反対を持つ
+  | { type: "hello"; hostSide: Player }
+  // ply = 送る側がこの手を打つ前の手数
+  | { type: "move"; move: Move; ply: number }
+  | { type: "resign" }
+  // guest → host：棋譜を送り直してほしい
+  | { type: "resyncRequest" }
+  // host → guest：host の棋譜（guest はルールで検証してから置き換える）
+  | { type: "resync"; moves: MoveRecord[] };
+
+function isMoveRecord(v: unknown): v is MoveRecord {
+  return isObject(v) && isPlayer(v.player) && isMove(v);
+}
+
+export function parsePeerMessage(raw: string): PeerMessage | null {
+  let v: unknown;
+  try {
+    v = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(v)) return null;
+  switch (v.type) {
+    case "hello":
+      return isPlayer(v.hostSide) ? { type: "hello", hostSide: v.hostSide } : null;
+    case "move":
+      return isMove(v.move) && Number.isInteger(v.ply) ? { type: "move", move: v.move, ply: v.ply as number } : null;
+    case "resign":
+      return { type: "resign" };
+    case "resyncRequest":
+      return { type: "resyncRequest" };
+    case "resync":
+      return Array.isArray(v.moves) && v.moves.every(isMoveRecord) ? { type: "resync", moves: v.moves } : null;
+    default:
+      return null;
+  }
+}
+
+// 相手（remote）の手を検証して積む。手番違い・打てない手は IllegalMoveError
+export function applyRemoteMove(h: History, remote: Player, move: Move): History {
+  const s = stateAt(h);
+  if (s.turn !== remote) throw new IllegalMoveError(`not ${remote}'s turn`);
+  playMove(s, move);
+  const { pos, quadrant, dir } = move;
+  return pushMove(h, { player: remote, pos: { x: pos.x, y: pos.y }, quadrant, dir });
+}
+
+// 送られてきた棋譜を初期局面から打ち直して確かめる。打てない手順なら IllegalMoveError
+export function historyFromMoves(start: History["start"], moves: MoveRecord[]): History {
+  const h: History = { start, moves, cursor: moves.length };
+  stateAt(h);
+  return h;
+}
+
+/* =========================
+   接続情報（SDP）⇔ 貼り付け用の文字列
+========================= */
+
+export type SignalKind = "offer" | "answer";
+
+const SIGNAL_PREFIX = "PTG1.";
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): string | null {
+  try {
+    const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+}
+
+export function encodeSignal(kind: SignalKind, sdp: string): string {
+  return SIGNAL_PREFIX + toBase64Url(JSON.stringify({ kind, sdp }));
+}
+
+// 形式が違う・期待した種類でなければ null
+export function decodeSignal(text: string, expected: SignalKind): string | null {
+  const t = text.replace(/\s+/g, "");
+  if (!t.startsWith(SIGNAL_PREFIX)) return null;
+  const json = fromBase64Url(t.slice(SIGNAL_PREFIX.length));
+  if (json === null) return null;
+  try {
+    const v: unknown = JSON.parse(json);
+    if (!isObject(v) || v.kind !== expected || typeof v.sdp !== "string") return null;
+    return v.sdp;
+  } catch {
+    return null;
+  }
+}
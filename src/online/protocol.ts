@@ -0,0 +1,112 @@
+import type { MoveRecord } from "../core/history";
+import type { GameResult, Move, Player } from "../types";
+
+/*
+  オンライン対戦（WebSocket）のメッセージ。ブラウザとサーバー（server/）で共有する。
+  サーバーが正：変化があるたびに部屋の状態（RoomSnapshot）を丸ごと配り、
+  クライアントはそれで盤面を作り直す（再接続・取りこぼしも sync で回復できる）。
+*/
+
+export const ROOM_CODE_LENGTH = 5;
+// 見間違えやすい 0/O・1/I は使わない
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const DEFAULT_ONLINE_PORT = 8787;
+
+export type SeatStatus = "empty" | "connected" | "disconnected";
+
+export type RoomSnapshot = {
+  room: string;
+  // 初期局面から打った手（白先手）
+  moves: MoveRecord[];
+  result: GameResult | null;
+  // 引き分けを提案中の側
+  drawOfferBy: Player | null;
+  seats: Record<Player, SeatStatus>;
+};
+
+// ブラウザ → サーバー
+export type ClientMessage =
+  | { type: "create"; side?: Player }
+  | { type: "join"; room: string }
+  // 切断後に同じ席へ戻る（token は joined で受け取ったもの）
+  | { type: "reconnect"; room: string; token: string }
+  // ply = 送る側が知っている手数。ずれていれば古い局面への手として拒否する
+  | { type: "move"; move: Move; ply: number }
+  | { type: "resign" }
+  | { type: "drawOffer" }
+  | { type: "drawReply"; accept: boolean }
+  | { type: "sync" };
+
+export type OnlineErrorCode =
+  | "badMessage"
+  | "noRoom"
+  | "roomFull"
+  | "badToken"
+  | "notInRoom"
+  | "notYourTurn"
+  | "stale"
+  | "illegal"
+  | "finished";
+
+// サーバー → ブラウザ
+export type ServerMessage =
+  | { type: "joined"; side: Player; token: string; snapshot: RoomSnapshot }
+  | { type: "sync"; snapshot: RoomSnapshot }
+  | { type: "error"; code: OnlineErrorCode; message: string };
+
+export function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export function isPlayer(v: unknown): v is Player {
+  return v === "white" || v === "black";
+}
+
+export function isMove(v: unknown): v is Move {
+  return (
+    isObject(v) &&
+    isObject(v.pos) &&
+    Number.isInteger(v.pos.x) &&
+    Number.isInteger(v.pos.y) &&
+    Number.isInteger(v.quadrant) &&
+    (v.dir === "cw" || v.dir === "ccw")
+  );
+}
+
+// 受け取った JSON がメッセージの形をしているか（中身の合法性はサーバーのルール判定で見る）
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let v: unknown;
+  try {
+    v = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(v)) return null;
+  switch (v.type) {
+    case "create":
+      return v.side === undefined || isPlayer(v.side) ? { type: "create", side: v.side } : null;
+    case "join":
+      return typeof v.room === "string" ? { type: "join", room: v.room } : null;
+    case "reconnect":
+      return typeof v.room === "string" && typeof v.token === "string"
+        ? { type: "reconnect", room: v.room, token: v.token }
+        : null;
+    case "move":
+      return isMove(v.move) && Number.isInteger(v.ply) ? { type: "move", move: v.move, ply: v.ply as number } : null;
+    case "drawReply":
+      return typeof v.accept === "boolean" ? { type: "drawReply", accept: v.accept } : null;
+    case "resign":
+      return { type: "resign" };
+    case "drawOffer":
+      return { type: "drawOffer" };
+    case "sync":
+      return { type: "sync" };
+    default:
+      return null;
+  }
+}
+
+export function normalizeRoomCode(text: string): string {
+  return text.trim().toUpperCase();
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { createClock, startClock } from "./core/clock";
+import { createHistory, pushMove } from "./core/history";
+import { confirmPlacement, createGame, createVariantGame, place, playMove } from "./core/rules";
+import { STANDARD_VARIANT } from "./core/variant";
+import { STORAGE_KEY, clearSavedGame, loadSavedGame, saveGame } from "./persistence";
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => void items.set(k, v),
+    removeItem: (k: string) => void items.delete(k),
+  };
+}
+
+function sampleHistory() {
+  let h = createHistory(createGame());
+  h = pushMove(h, { player: "white", pos: { x: 0, y: 0 }, quadrant: 3, dir: "cw" });
+  h = pushMove(h, { player: "black", pos: { x: 1, y: 0 }, quadrant: 3, dir: "ccw" });
+  return h;
+}
+
+describe("persistence", () => {
+  it("restores the game including a pending placement", () => {
+    const storage = memoryStorage();
+    const history = sampleHistory();
+    const game = confirmPlacement(place(createGame(), { x: 2, y: 2 }));
+    saveGame({ mode: "local", aiSide: null, aiLevel: "normal", history, game, clock: null }, storage);
+
+    const saved = loadSavedGame(storage);
+    expect(saved).not.toBeNull();
+    expect(saved!.history.moves).toHaveLength(2);
+    expect(saved!.game.board[0][1]).toBe("black");
+    expect(saved!.game.pending).toEqual({ x: 2, y: 2 });
+    expect(saved!.game.phase).toBe("rotate");
+  });
+
+  it("drops the AI's half-shown placement", () => {
+    const storage = memoryStorage();
+    const game = place(createGame(), { x: 2, y: 2 });
+    saveGame({ mode: "ai", aiSide: "white", aiLevel: "hard", history: sampleHistory(), game, clock: null }, storage);
+    expect(loadSavedGame(storage)!.game.pending).toBeNull();
+  });
+
+  it("returns null and clears corrupt data", () => {
+    const storage = memoryStorage();
+    storage.setItem(STORAGE_KEY, "{not json");
+    expect(loadSavedGame(storage)).toBeNull();
+    expect(storage.items.has(STORAGE_KEY)).toBe(false);
+  });
+
+  it("rejects unknown versions and impossible move sequences", () => {
+    const storage = memoryStorage();
+    saveGame(
+      { mode: "local", aiSide: null, aiLevel: "normal", history: sampleHistory(), game: createGame(), clock: null },
+      storage
+    );
+    const data = JSON.parse(storage.getItem(STORAGE_KEY)!);
+
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...data, version: 0 }));
+    expect(loadSavedGame(storage)).toBeNull();
+
+    const twice = [data.moves[0], { ...data.moves[0], player: "black" }];
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...data, moves: twice }));
+    expect(loadSavedGame(storage)).toBeNull();
+    expect(storage.items.has(STORAGE_KEY)).toBe(false);
+
+    // 戻した先（やり直し用）の手がおかしくても読まない
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...data, moves: twice, cursor: 1 }));
+    expect(loadSavedGame(storage)).toBeNull();
+    expect(storage.items.has(STORAGE_KEY)).toBe(false);
+  });
+
+  it("keeps the rule variant and reads version 1 saves as the standard rules", () => {
+    const storage = memoryStorage();
+    const variant = { quadrants: 3, winLength: 4, skipRotation: true, randomRotation: false } as const;
+    const start = createVariantGame(variant);
+    const history = pushMove(createHistory(start), { player: "white", pos: { x: 8, y: 8 }, quadrant: 8, dir: "cw" });
+    saveGame(
+      { mode: "local", aiSide: null, aiLevel: "normal", history, game: playMove(start, history.moves[0]), clock: null },
+      storage
+    );
+    const saved = loadSavedGame(storage)!;
+    expect(saved.game.variant).toEqual(variant);
+    expect(saved.game.board[8][6]).toBe("white");
+
+    saveGame(
+      { mode: "local", aiSide: null, aiLevel: "normal", history: sampleHistory(), game: createGame(), clock: null },
+      storage
+    );
+    const v1 = JSON.parse(storage.getItem(STORAGE_KEY)!);
+    delete v1.variant;
+    delete v1.clock;
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...v1, version: 1 }));
+    expect(loadSavedGame(storage)!.history.start.variant).toEqual(STANDARD_VARIANT);
+  });
+
+  it("keeps the clock stopped at the remaining time", () => {
+    const storage = memoryStorage();
+    const running = startClock(createClock({ kind: "fischer", baseMs: 60_000, incrementMs: 2000 }), "black", 0);
+    const clock = { ...running, since: Date.now() - 10_000 };
+    const history = sampleHistory();
+    saveGame({ mode: "local", aiSide: null, aiLevel: "normal", history, game: createGame(), clock }, storage);
+
+    const saved = loadSavedGame(storage)!.clock!;
+    expect(saved.control).toEqual(clock.control);
+    expect(saved.running).toBeNull();
+    expect(saved.main.white).toBe(60_000);
+    expect(saved.main.black).toBeLessThanOrEqual(50_000);
+    expect(saved.main.black).toBeGreaterThan(45_000);
+
+    // 時計の形がおかしければ読まない
+    const data = JSON.parse(storage.getItem(STORAGE_KEY)!);
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...data, clock: { ...data.clock, main: { white: -1, black: 0 } } }));
+    expect(loadSavedGame(storage)).toBeNull();
+  });
+
+  it("clears the saved game", () => {
+    const storage = memoryStorage();
+    saveGame(
+      { mode: "local", aiSide: null, aiLevel: "normal", history: sampleHistory(), game: createGame(), clock: null },
+      storage
+    );
+    clearSavedGame(storage);
+    expect(loadSavedGame(storage)).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+import { AI_LEVELS, type AiLevel } from "./core/ai";
+import { createClock, pauseClock, type Clock, type TimeControl } from "./core/clock";
+import { stateAt, type History, type MoveRecord } from "./core/history";
+import { IllegalMoveError, confirmPlacement, createGame, place } from "./core/rules";
+import { STANDARD_VARIANT, boardSize, isValidVariant } from "./core/variant";
+import type { CellValue, GameMode, GameState, Player, Pos, Variant } from "./types";
+
+/*
+  対局中のゲームを localStorage に自動保存する。
+  盤面そのものではなく「開始局面＋手順」を保存し、読み込み時にルールで打ち直して検証する。
+  形式を変えたら SAVE_VERSION を上げ、migrate に古い版の変換を足すこと。
+*/
+
+export const STORAGE_KEY = "pentago:savedGame";
+export const SAVE_VERSION = 3;
+
+export type SavedGame = {
+  mode: GameMode;
+  aiSide: Player | null;
+  aiLevel: AiLevel;
+  history: History;
+  // 現在の局面（仮置き・回転フェーズも復元済み）
+  game: GameState;
+  // 持ち時間（保存した時点の残りで止めてある。時計なしなら null）
+  clock: Clock | null;
+  savedAt: string;
+};
+
+type SavedGameV1 = {
+  version: 1;
+  savedAt: string;
+  mode: GameMode;
+  aiSide: Player | null;
+  aiLevel: AiLevel;
+  start: { board: CellValue[][]; turn: Player };
+  moves: MoveRecord[];
+  cursor: number;
+  pending: Pos | null;
+  phase: "place" | "rotate";
+};
+
+// v2: ルールの変種を追加（v1 は通常ルールの対局）
+type SavedGameV2 = Omit<SavedGameV1, "version"> & { version: 2; variant: Variant };
+
+// 時計の残り（動いていた時計も止めて保存する）
+type SavedClock = {
+  control: TimeControl;
+  main: Record<Player, number>;
+  period: Record<Player, number>;
+};
+
+// v3: 持ち時間を追加（v2 までは時計なし）
+type SavedGameV3 = Omit<SavedGameV2, "version"> & { version: 3; clock: SavedClock | null };
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+function defaultStorage(): StorageLike | null {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    // プライベートモード等でアクセス自体が例外になることがある
+    return null;
+  }
+}
+
+export function saveGame(saved: Omit<SavedGame, "savedAt">, storage = defaultStorage()) {
+  if (!storage) return;
+  const { history, game } = saved;
+  const clock = saved.clock && pauseClock(saved.clock, Date.now());
+  const data: SavedGameV3 = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    mode: saved.mode,
+    aiSide: saved.aiSide,
+    aiLevel: saved.aiLevel,
+    variant: history.start.variant,
+    start: { board: history.start.board.map((row) => row.slice()), turn: history.start.turn },
+    moves: history.moves.slice(),
+    cursor: history.cursor,
+    pending: game.pending,
+    phase: game.phase,
+    clock: clock && { control: clock.control, main: { ...clock.main }, period: { ...clock.period } },
+  };
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // 容量超過などは諦める（対局自体は続けられる）
+  }
+}
+
+export function clearSavedGame(storage = defaultStorage()) {
+  try {
+    storage?.removeItem(STORAGE_KEY);
+  } catch {
+    // 何もしない
+  }
+}
+
+// 壊れている・古すぎる・ルール上ありえないデータは消して null を返す
+export function loadSavedGame(storage = defaultStorage()): SavedGame | null {
+  if (!storage) return null;
+  let raw: string | null;
+  try {
+    raw = storage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (raw === null) return null;
+
+  try {
+    const data = migrate(JSON.parse(raw));
+    if (data) return restore(data);
+  } catch (e) {
+    if (!(e instanceof SyntaxError || e instanceof TypeError || e instanceof IllegalMoveError)) throw e;
+  }
+  clearSavedGame(storage);
+  return null;
+}
+
+/* =========================
+   Validation
+========================= */
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isPlayer(v: unknown): v is Player {
+  return v === "white" || v === "black";
+}
+
+function isPos(v: unknown): v is Pos {
+  return isObject(v) && Number.isInteger(v.x) && Number.isInteger(v.y);
+}
+
+function isBoard(v: unknown, size: number): v is CellValue[][] {
+  return (
+    Array.isArray(v) &&
+    v.length === size &&
+    v.every((row) => Array.isArray(row) && row.length === size && row.every((c) => c === null || isPlayer(c)))
+  );
+}
+
+function isVariant(v: unknown): v is Variant {
+  return (
+    isObject(v) &&
+    (v.quadrants === 2 || v.quadrants === 3) &&
+    typeof v.winLength === "number" &&
+    typeof v.skipRotation === "boolean" &&
+    typeof v.randomRotation === "boolean" &&
+    isValidVariant(v as Variant)
+  );
+}
+
+function isTimeControl(v: unknown): v is TimeControl {
+  if (!isObject(v) || !isDuration(v.baseMs)) return false;
+  if (v.kind === "fischer") return isDuration(v.incrementMs);
+  return v.kind === "byoyomi" && isDuration(v.periodMs);
+}
+
+function isDuration(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+function isTimes(v: unknown): v is Record<Player, number> {
+  return isObject(v) && isDuration(v.white) && isDuration(v.black);
+}
+
+function isSavedClock(v: unknown): v is SavedClock {
+  return isObject(v) && isTimeControl(v.control) && isTimes(v.main) && isTimes(v.period);
+}
+
+function isMoveRecord(v: unknown): v is MoveRecord {
+  return (
+    isObject(v) &&
+    isPlayer(v.player) &&
+    isPos(v.pos) &&
+    Number.isInteger(v.quadrant) &&
+    (v.dir === "cw" || v.dir === "ccw")
+  );
+}
+
+// 版ごとの形を確かめ、現在の版に変換する。未知の版なら null
+function migrate(data: unknown): SavedGameV3 | null {
+  if (!isObject(data)) return null;
+  switch (data.version) {
+    case 1:
+      return isV1(data, boardSize(STANDARD_VARIANT))
+        ? { ...data, version: 3, variant: STANDARD_VARIANT, clock: null }
+        : null;
+    case 2: {
+      const variant = data.variant;
+      return isVariant(variant) && isV1(data, boardSize(variant))
+        ? { ...data, version: 3, variant, clock: null }
+        : null;
+    }
+    case 3: {
+      const { variant, clock } = data;
+      return isVariant(variant) && isV1(data, boardSize(variant)) && (clock === null || isSavedClock(clock))
+        ? { ...data, version: 3, variant, clock }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// v1 と共通の部分（v2 は盤の大きさが変種で決まる）
+function isV1(d: Record<string, unknown>, size: number): d is SavedGameV1 {
+  const start = d.start;
+  return (
+    typeof d.savedAt === "string" &&
+    (d.mode === "local" || d.mode === "ai") &&
+    (d.aiSide === null || isPlayer(d.aiSide)) &&
+    (d.mode === "local" || d.aiSide !== null) &&
+    typeof d.aiLevel === "string" &&
+    Object.prototype.hasOwnProperty.call(AI_LEVELS, d.aiLevel) &&
+    isObject(start) &&
+    isBoard(start.board, size) &&
+    isPlayer(start.turn) &&
+    Array.isArray(d.moves) &&
+    d.moves.every(isMoveRecord) &&
+    Number.isInteger(d.cursor) &&
+    (d.cursor as number) >= 0 &&
+    (d.cursor as number) <= d.moves.length &&
+    (d.pending === null || isPos(d.pending)) &&
+    (d.phase === "place" || d.phase === "rotate")
+  );
+}
+
+function restore(d: SavedGameV3): SavedGame {
+  const history: History = {
+    start: createGame(d.start.board, d.start.turn, d.variant),
+    moves: d.moves,
+    cursor: d.cursor,
+  };
+  // 打ち直せない手順なら IllegalMoveError。やり直し用に残した cursor より先の手も確かめる
+  stateAt(history, history.moves.length);
+  let game = stateAt(history);
+
+  // AI の手番の仮置きは演出途中なので捨てる（AI が考え直す）
+  const isAiTurn = d.mode === "ai" && d.aiSide === game.turn;
+  if (d.pending && !isAiTurn && !game.winner) {
+    game = place(game, d.pending);
+    if (d.phase === "rotate") game = confirmPlacement(game);
+  }
+
+  return {
+    mode: d.mode,
+    aiSide: d.mode === "ai" ? d.aiSide : null,
+    aiLevel: d.aiLevel,
+    history,
+    game,
+    clock: d.clock && { ...createClock(d.clock.control), main: d.clock.main, period: d.clock.period },
+    savedAt: d.savedAt,
+  };
+}
@@ -0,0 +1,36 @@
+/*
+  画面・パネルで共通のボタンの見た目（インラインスタイルに広げて使う）。
+  大きさだけ違うものは { ...buttonStyle, height: 36 } のように上書きする。
+*/
+
+// パネル内の操作ボタン
+export const buttonStyle = {
+  height: 40,
+  padding: "0 12px",
+  borderRadius: 14,
+  border: "1px solid rgba(17,24,39,0.14)",
+  background: "white",
+  fontWeight: 900,
+  cursor: "pointer",
+} as const;
+
+// 設定画面の大きな選択ボタン（先手・後手、観戦を始める など）
+export const choiceButtonStyle = {
+  height: 52,
+  borderRadius: 16,
+  border: "1px solid rgba(17,24,39,0.14)",
+  background: "white",
+  fontWeight: 950,
+  fontSize: 16,
+  cursor: "pointer",
+} as const;
+
+// ホームのメニュー・戻るボタン
+export const menuButtonStyle = {
+  height: 44,
+  borderRadius: 16,
+  border: "1px solid rgba(17,24,39,0.12)",
+  background: "rgba(255,255,255,0.8)",
+  fontWeight: 700,
+  cursor: "pointer",
+} as const;
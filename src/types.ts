@@ -1,8 +1,80 @@
 export type Player = "white" | "black";
+// 石の色。2人対戦は白・黒だけ、3〜4人対戦（core/multiplayer.ts）では黄・青も使う
+export type Stone = Player | "yellow" | "blue";
 export type Phase = "place" | "rotate";
-export type CellValue = Player | null;
+export type CellValue = Stone | null;
 
 export type Pos = { x: number; y: number };
 
-export type GameMode = "local" | "ai";
-export type Screen = "home" | "aiSetup" | "game";
+export type GameMode = "local" | "ai" | "online" | "p2p" | "watch";
+export type Screen = "home" | "aiSetup" | "setup" | "import" | "online" | "p2p" | "game" | "analysis" | "multi" | "watchSetup";
+
+// 盤面（読み取り専用）。書き換えは rules 側で clone してから行う
+export type Grid = ReadonlyArray<ReadonlyArray<CellValue>>;
+
+export type Dir = "cw" | "ccw";
+
+// quadrant: 0=左上,1=右上,2=左下,3=右下
+export type Move = { pos: Pos; quadrant: number; dir: Dir };
+
+export type Winner = Player | "draw";
+
+// 決着の理由
+// five: 5つ並び / doubleFive: 両者同時に5つ並んだ引き分け / full: 盤が埋まった引き分け
+// resign: 投了 / agreement: 合意の引き分け / timeout: 時間切れ
+export type EndReason = "five" | "doubleFive" | "full" | "resign" | "agreement" | "timeout";
+
+export type GameResult = { winner: Winner; reason: EndReason };
+
+// 揃った5つのマス（端から順）
+export type WinLine = { player: Stone; cells: Pos[] };
+
+// ルールの変種（core/variant.ts）。盤の大きさは象限の数から決まる（1象限は 3×3）
+export type Variant = {
+  // 1辺に並ぶ象限の数：2 = 6×6（通常）、3 = 9×9（Pentago XL）
+  readonly quadrants: 2 | 3;
+  // 何個並べば勝ちか
+  readonly winLength: number;
+  // 空の象限・回しても変わらない象限があれば、回さずに手を終えられる
+  readonly skipRotation: boolean;
+  // 回す象限と向きはランダムに決まる（プレイヤーは置く場所だけ選ぶ）
+  readonly randomRotation: boolean;
+};
+
+export type GameState = {
+  readonly board: Grid;
+  readonly turn: Player;
+  readonly phase: Phase;
+  // 仮置き中のマス（確定前）
+  readonly pending: Pos | null;
+  readonly winner: Winner | null;
+  // 確定済みの手数（0 始まり）
+  readonly moveNumber: number;
+  readonly variant: Variant;
+};
+
+/* =========================
+   3〜4人対戦（core/multiplayer.ts）
+========================= */
+
+export type MultiConfig = {
+  // 手番の順（3〜4色、同じ色は1回ずつ）
+  readonly order: readonly Stone[];
+  // チーム戦（4人のときだけ）：手番の1・3番目と2・4番目が味方で、味方の石は一緒に数える
+  readonly teams: boolean;
+  readonly variant: Variant;
+};
+
+// 勝った側の石の色（チーム戦なら2色）か引き分け
+export type MultiWinner = readonly Stone[] | "draw";
+
+export type MultiState = {
+  readonly board: Grid;
+  readonly turn: Stone;
+  readonly phase: Phase;
+  readonly pending: Pos | null;
+  readonly winner: MultiWinner | null;
+  readonly moveNumber: number;
+  readonly variant: Variant;
+  readonly config: MultiConfig;
+};
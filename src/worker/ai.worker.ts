@@ -0,0 +1,22 @@
+import { searchBestMove } from "../core/ai";
+import type { AiRequest, AiResponse } from "./protocol";
+
+function post(msg: AiResponse) {
+  self.postMessage(msg);
+}
+
+self.onmessage = (e: MessageEvent<AiRequest>) => {
+  const req = e.data;
+  if (req.type !== "search") return;
+
+  try {
+    const result = searchBestMove(req.board, req.side, req.level, {
+      variant: req.variant,
+      overrides: req.overrides,
+      onIteration: (r) => post({ type: "progress", id: req.id, result: r }),
+    });
+    post({ type: "result", id: req.id, result });
+  } catch (err) {
+    post({ type: "error", id: req.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
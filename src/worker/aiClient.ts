@@ -0,0 +1,96 @@
+import type { AiLevel, AiLevelConfig, SearchResult } from "../core/ai";
+import type { Grid, Player, Variant } from "../types";
+import type { AiRequest, AiResponse } from "./protocol";
+
+export type AiClient = {
+  // 1局面の探索を依頼する。新しい依頼は前の依頼をキャンセルする
+  search: (
+    board: Grid,
+    side: Player,
+    level: AiLevel,
+    variant: Variant,
+    onProgress?: (r: SearchResult) => void,
+    overrides?: Partial<AiLevelConfig>
+  ) => Promise<SearchResult>;
+  // 探索中なら Worker ごと止める（キャンセルされた Promise は解決されない）
+  cancel: () => void;
+  dispose: () => void;
+};
+
+type PendingSearch = {
+  id: number;
+  resolve: (r: SearchResult) => void;
+  reject: (e: Error) => void;
+  onProgress?: (r: SearchResult) => void;
+};
+
+export function createAiClient(): AiClient {
+  let worker: Worker | null = null;
+  let pending: PendingSearch | null = null;
+  let nextId = 1;
+
+  function onMessage(e: MessageEvent<AiResponse>) {
+    const msg = e.data;
+    // キャンセル済みの依頼への応答は捨てる
+    if (!pending || msg.id !== pending.id) return;
+
+    if (msg.type === "progress") {
+      pending.onProgress?.(msg.result);
+      return;
+    }
+
+    const done = pending;
+    pending = null;
+    if (msg.type === "result") done.resolve(msg.result);
+    else done.reject(new Error(msg.message));
+  }
+
+  // 読み込みに失敗した・try の外で落ちた Worker からは応答が来ないので、待っている依頼を失敗させて作り直す
+  function fail(message: string) {
+    const done = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    done?.reject(new Error(message));
+  }
+
+  function ensureWorker(): Worker {
+    if (!worker) {
+      worker = new Worker(new URL("./ai.worker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = onMessage;
+      worker.onerror = (e) => {
+        e.preventDefault();
+        fail(e.message || "AI worker failed");
+      };
+      worker.onmessageerror = () => fail("AI worker sent an unreadable message");
+    }
+    return worker;
+  }
+
+  function cancel() {
+    if (!pending) return;
+    pending = null;
+    // 探索は同期ループなのでメッセージでは割り込めない。Worker を作り直す
+    worker?.terminate();
+    worker = null;
+  }
+
+  return {
+    search(board, side, level, variant, onProgress, overrides) {
+      cancel();
+      const w = ensureWorker();
+      const id = nextId++;
+      return new Promise<SearchResult>((resolve, reject) => {
+        pending = { id, resolve, reject, onProgress };
+        const req: AiRequest = { type: "search", id, board, side, level, variant, overrides };
+        w.postMessage(req);
+      });
+    },
+    cancel,
+    dispose() {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import type { AiLevel, AiLevelConfig, SearchResult } from "../core/ai";
+import type { Grid, Player, Variant } from "../types";
+
+// メインスレッド → AI Worker
+export type AiRequest = {
+  type: "search";
+  // 応答を対応付けるための連番
+  id: number;
+  board: Grid;
+  side: Player;
+  level: AiLevel;
+  variant: Variant;
+  // レベルの設定を一部だけ変える（振り返りでは定跡を使わない など）
+  overrides?: Partial<AiLevelConfig>;
+};
+
+// AI Worker → メインスレッド
+export type AiResponse =
+  | { type: "progress"; id: number; result: SearchResult }
+  | { type: "result"; id: number; result: SearchResult }
+  | { type: "error"; id: number; message: string };